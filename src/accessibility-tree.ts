@@ -0,0 +1,549 @@
+import { type Container, EventBoundary, FederatedEvent, Point } from "pixi.js";
+import {
+  createContext,
+  useContext,
+  useEffect,
+  useEffectEvent,
+  useState,
+} from "react";
+import { Box3, type Camera, type Object3D, Vector3 } from "three";
+
+import { type FocusManager } from "./focus-manager";
+import { dispatchPointer, type InjectPointerType } from "./inject-pointer";
+
+// Object3D only merges with its declaring module
+declare module "three/src/core/Object3D.js" {
+  interface Object3D {
+    /** Mirrors the object into the accessibility tree, see {@link ThreeAccessibleOptions} */
+    a11y?: ThreeAccessibleOptions;
+  }
+}
+
+/**
+ * Accessibility of a Three object, set with the `a11y` prop.
+ *
+ * The object is mirrored into a DOM element over its bounds, so screen
+ * readers can find and activate it. Activating the element clicks the
+ * center of the object, and focusing it moves a pointer over the object.
+ *
+ * @category component
+ * @expand
+ * @example
+ * ```tsx
+ * <mesh a11y={{ label: "Play" }} onClick={play}>
+ *   <boxGeometry />
+ * </mesh>
+ * ```
+ */
+export interface ThreeAccessibleOptions {
+  /** Accessible name */
+  label: string;
+  /** Accessible description */
+  description?: string;
+  /** ARIA role, defaults to "button" */
+  role?: string;
+  /** DOM tab index, defaults to 0 */
+  tabIndex?: number;
+}
+
+/** Pointer id of focus and activation on Three objects */
+const ACCESSIBILITY_POINTER_ID = 2 ** 30;
+
+/**
+ * Identity of a layer in the accessibility tree.
+ * @internal
+ */
+export interface AccessibilityLayer {
+  /** The enclosing layer, null for a {@link CanvasView} */
+  parent: AccessibilityLayer | null;
+}
+
+/**
+ * Layer mirrored into the accessibility tree.
+ * @internal
+ */
+export type AccessibilitySource =
+  | {
+      type: "pixi";
+      /** Nested layers follow their enclosing layer in the DOM */
+      layer: AccessibilityLayer;
+      getRoot: () => Container | undefined;
+      /** Maps root container coordinates to client coordinates, null if not visible */
+      mapPixiToClient: (local: Point, out: Point) => Point | null;
+    }
+  | {
+      type: "three";
+      /** Nested layers follow their enclosing layer in the DOM */
+      layer: AccessibilityLayer;
+      getScene: () => Object3D | undefined;
+      getCamera: () => Camera;
+      /** Maps world coordinates to client coordinates, null if not visible */
+      mapThreeToClient: (world: Vector3, out: Point) => Point | null;
+      /** Canvas of the {@link CanvasView} that routes pointer events to the layer */
+      getCanvas: () => HTMLCanvasElement;
+    };
+
+/**
+ * Layer options of {@link useAccessibilitySource}, the layer follows from
+ * the nesting.
+ * @internal
+ */
+export type AccessibilitySourceOptions =
+  | Omit<Extract<AccessibilitySource, { type: "pixi" }>, "layer">
+  | Omit<Extract<AccessibilitySource, { type: "three" }>, "layer">;
+
+/**
+ * The enclosing accessibility layer, null outside of any.
+ * @internal
+ */
+export const AccessibilityLayerContext =
+  createContext<AccessibilityLayer | null>(null);
+
+/** @internal */
+export interface AccessibilityTree {
+  /**
+   * Registers a layer, returns a function that removes it.
+   * @param getSource - Returns the current functions of the layer
+   */
+  addSource: (getSource: () => AccessibilitySource) => () => void;
+  /** Attaches the DOM element that contains the mirrored elements */
+  connect: (root: HTMLElement) => () => void;
+  /** Marks the mirror stale, after a frame rendered the layers */
+  invalidate: () => void;
+  /** Mirrors the accessible objects of every layer if the mirror is stale */
+  update: () => void;
+}
+
+interface AccessibilityNode {
+  object: Container | Object3D;
+  getSource: () => AccessibilitySource;
+  element: HTMLElement;
+  /** Removes listeners and the focus registration */
+  dispose: () => void;
+  /** Client bounds, null if not visible */
+  bounds: { left: number; top: number; right: number; bottom: number } | null;
+}
+
+function getTagName(object: Container | Object3D) {
+  if ("isObject3D" in object) {
+    const role = object.a11y?.role ?? "button";
+    return role === "button" ? "button" : "div";
+  }
+  return object.accessibleType ?? "button";
+}
+
+function setAttribute(element: HTMLElement, name: string, value?: string) {
+  if (value === undefined || value === "") {
+    if (element.hasAttribute(name)) {
+      element.removeAttribute(name);
+    }
+  } else if (element.getAttribute(name) !== value) {
+    element.setAttribute(name, value);
+  }
+}
+
+/**
+ * Creates the accessibility tree for a {@link RenderContext}.
+ *
+ * Pixi containers with `accessible` set and Three objects with an `a11y`
+ * prop are mirrored into transparent DOM elements over their client bounds,
+ * like the Pixi accessibility system does for a single canvas. Bounds go
+ * through the same bijections as pointer events, so objects inside a
+ * {@link PixiTexture} on a mesh get the bounds of their projection.
+ * Changes are mirrored after the next frame of a {@link CanvasView}.
+ *
+ * @internal
+ * @param focusManager - The focus manager, for focusable Pixi containers
+ * @returns The accessibility tree
+ */
+export function createAccessibilityTree(
+  focusManager: FocusManager,
+): AccessibilityTree {
+  const sources = new Set<() => AccessibilitySource>();
+  const nodes = new Map<Container | Object3D, AccessibilityNode>();
+  let root: HTMLElement | null = null;
+  // Rebuilt after layers render or move, not on idle frames
+  let isStale = true;
+
+  function invalidate() {
+    isStale = true;
+  }
+
+  const _box = new Box3();
+  const _corner = new Vector3();
+  const _ndc = new Vector3();
+  const _local = new Point();
+  const _global = new Point();
+  const _client = new Point();
+
+  function dispatchPixi(
+    container: Container,
+    nativeEvent: Event,
+    types: string[],
+  ) {
+    const roots = [...sources].map((getSource) => {
+      const source = getSource();
+      return source.type === "pixi" ? source.getRoot() : undefined;
+    });
+    let layerRoot = container;
+    while (layerRoot.parent && !roots.includes(layerRoot)) {
+      layerRoot = layerRoot.parent;
+    }
+    const boundary = new EventBoundary(layerRoot);
+    types.forEach((type) => {
+      const event = new FederatedEvent(boundary);
+      event.target = container;
+      event.nativeEvent = nativeEvent as UIEvent;
+      event.timeStamp = performance.now();
+      boundary.dispatchEvent(event, type);
+    });
+  }
+
+  function dispatchThree(node: AccessibilityNode, types: InjectPointerType[]) {
+    const source = node.getSource();
+    const { bounds } = node;
+    if (source.type !== "three" || !bounds) {
+      return;
+    }
+    types.forEach((type) => {
+      dispatchPointer(source.getCanvas(), {
+        type,
+        clientX: (bounds.left + bounds.right) / 2,
+        clientY: (bounds.top + bounds.bottom) / 2,
+        pointerId: ACCESSIBILITY_POINTER_ID,
+      });
+    });
+  }
+
+  function createNode(
+    object: Container | Object3D,
+    getSource: () => AccessibilitySource,
+  ): AccessibilityNode {
+    const element: HTMLElement = document.createElement(getTagName(object));
+    Object.assign(element.style, {
+      position: "fixed",
+      top: "0",
+      left: "0",
+      margin: "0",
+      padding: "0",
+      border: "0",
+    });
+    const node: AccessibilityNode = {
+      object,
+      getSource,
+      element,
+      dispose: () => {},
+      bounds: null,
+    };
+
+    const onClick = (event: MouseEvent) => {
+      // The event container would route it to the content at 0, 0
+      event.preventDefault();
+      event.stopPropagation();
+      if ("isObject3D" in object) {
+        dispatchThree(node, ["pointerdown", "pointerup", "click"]);
+      } else {
+        dispatchPixi(object, event, ["click", "pointertap", "tap"]);
+      }
+    };
+    element.addEventListener("click", onClick);
+
+    if ("isObject3D" in object) {
+      const onFocus = () => {
+        dispatchThree(node, ["pointerover", "pointermove"]);
+      };
+      const onBlur = () => {
+        dispatchThree(node, ["pointerleave"]);
+      };
+      element.addEventListener("focus", onFocus);
+      element.addEventListener("blur", onBlur);
+      node.dispose = () => {
+        element.removeEventListener("click", onClick);
+        element.removeEventListener("focus", onFocus);
+        element.removeEventListener("blur", onBlur);
+      };
+    } else {
+      // Focusable containers move DOM focus to their element instead of the
+      // focus proxy, so screen readers follow Tab and clicks
+      const removeInput =
+        object.focusable && !focusManager.hasInput(object)
+          ? focusManager.addInput(object, element)
+          : undefined;
+      node.dispose = () => {
+        element.removeEventListener("click", onClick);
+        removeInput?.();
+      };
+    }
+    return node;
+  }
+
+  function getPixiBounds(
+    container: Container,
+    source: Extract<AccessibilitySource, { type: "pixi" }>,
+    layerRoot: Container,
+  ) {
+    const { minX, minY, maxX, maxY } = container.getBounds();
+    const corners = [minX, minY, maxX, minY, maxX, maxY, minX, maxY];
+    const bounds = {
+      left: Infinity,
+      top: Infinity,
+      right: -Infinity,
+      bottom: -Infinity,
+    };
+    for (let i = 0; i < corners.length; i += 2) {
+      _global.set(corners[i], corners[i + 1]);
+      layerRoot.toLocal(_global, undefined, _local);
+      const client = source.mapPixiToClient(_local, _client);
+      if (client) {
+        bounds.left = Math.min(bounds.left, client.x);
+        bounds.top = Math.min(bounds.top, client.y);
+        bounds.right = Math.max(bounds.right, client.x);
+        bounds.bottom = Math.max(bounds.bottom, client.y);
+      }
+    }
+    return bounds.left <= bounds.right ? bounds : null;
+  }
+
+  function getThreeBounds(
+    object: Object3D,
+    source: Extract<AccessibilitySource, { type: "three" }>,
+  ) {
+    const camera = source.getCamera();
+    _box.setFromObject(object);
+    if (_box.isEmpty()) {
+      object.getWorldPosition(_corner);
+      _box.setFromPoints([_corner]);
+    }
+    const bounds = {
+      left: Infinity,
+      top: Infinity,
+      right: -Infinity,
+      bottom: -Infinity,
+    };
+    for (let i = 0; i < 8; i++) {
+      _corner.set(
+        i & 1 ? _box.max.x : _box.min.x,
+        i & 2 ? _box.max.y : _box.min.y,
+        i & 4 ? _box.max.z : _box.min.z,
+      );
+      _ndc.copy(_corner).project(camera);
+      if (_ndc.z > 1) {
+        continue;
+      }
+      const client = source.mapThreeToClient(_corner, _client);
+      if (client) {
+        bounds.left = Math.min(bounds.left, client.x);
+        bounds.top = Math.min(bounds.top, client.y);
+        bounds.right = Math.max(bounds.right, client.x);
+        bounds.bottom = Math.max(bounds.bottom, client.y);
+      }
+    }
+    return bounds.left <= bounds.right ? bounds : null;
+  }
+
+  /** Accessible objects of a layer in tree order */
+  function collect(source: AccessibilitySource) {
+    const objects: (Container | Object3D)[] = [];
+    if (source.type === "pixi") {
+      const visit = (container: Container) => {
+        if (!container.visible) {
+          return;
+        }
+        if (container.accessible) {
+          objects.push(container);
+        }
+        if (container.accessibleChildren !== false) {
+          container.children.forEach(visit);
+        }
+      };
+      const layerRoot = source.getRoot();
+      if (layerRoot) {
+        visit(layerRoot);
+      }
+    } else {
+      source.getScene()?.traverseVisible((object) => {
+        if (object.a11y) {
+          objects.push(object);
+        }
+      });
+    }
+    return objects;
+  }
+
+  function updateNode(node: AccessibilityNode, source: AccessibilitySource) {
+    const { object, element } = node;
+    if ("isObject3D" in object) {
+      const a11y = object.a11y!;
+      setAttribute(element, "aria-label", a11y.label);
+      setAttribute(element, "aria-description", a11y.description);
+      setAttribute(
+        element,
+        "role",
+        element.tagName === "BUTTON" ? undefined : a11y.role,
+      );
+      element.tabIndex = a11y.tabIndex ?? 0;
+      node.bounds =
+        source.type === "three" ? getThreeBounds(object, source) : null;
+    } else {
+      setAttribute(
+        element,
+        "aria-label",
+        object.accessibleTitle ?? (object.label || undefined),
+      );
+      setAttribute(
+        element,
+        "aria-description",
+        object.accessibleHint ?? undefined,
+      );
+      if (element.textContent !== (object.accessibleText ?? "")) {
+        element.textContent = object.accessibleText ?? "";
+      }
+      // Focusable containers follow the focus manager tab order
+      element.tabIndex = object.focusable ? -1 : (object.tabIndex ?? 0);
+      const layerRoot = source.type === "pixi" ? source.getRoot() : undefined;
+      node.bounds =
+        source.type === "pixi" && layerRoot
+          ? getPixiBounds(object, source, layerRoot)
+          : null;
+    }
+
+    const { bounds } = node;
+    const style = element.style;
+    const next = bounds
+      ? {
+          transform: `translate(${bounds.left}px, ${bounds.top}px)`,
+          width: `${bounds.right - bounds.left}px`,
+          height: `${bounds.bottom - bounds.top}px`,
+          visibility: "visible",
+        }
+      : { visibility: "hidden" };
+    Object.entries(next).forEach(([name, value]) => {
+      if (style.getPropertyValue(name) !== value) {
+        style.setProperty(name, value);
+      }
+    });
+  }
+
+  /** Sources in tree order, each nested layer after its enclosing layer */
+  function getOrderedSources() {
+    const entries = [...sources].map((getSource) => ({
+      getSource,
+      source: getSource(),
+    }));
+    const layers = new Set(entries.map(({ source }) => source.layer));
+    const children = new Map<AccessibilityLayer | null, typeof entries>();
+    entries.forEach((entry) => {
+      const { parent } = entry.source.layer;
+      // Until the enclosing layer registers, e.g. while it mounts
+      const key = parent && layers.has(parent) ? parent : null;
+      children.set(key, [...(children.get(key) ?? []), entry]);
+    });
+    const ordered: typeof entries = [];
+    const visit = (layer: AccessibilityLayer | null) => {
+      children.get(layer)?.forEach((entry) => {
+        ordered.push(entry);
+        visit(entry.source.layer);
+      });
+    };
+    visit(null);
+    return ordered;
+  }
+
+  function removeNode(node: AccessibilityNode) {
+    node.dispose();
+    node.element.remove();
+    nodes.delete(node.object);
+  }
+
+  return {
+    addSource(getSource) {
+      sources.add(getSource);
+      isStale = true;
+      return () => {
+        sources.delete(getSource);
+        isStale = true;
+      };
+    },
+    connect(element) {
+      root = element;
+      isStale = true;
+      // Client bounds change without a frame
+      window.addEventListener("scroll", invalidate, {
+        capture: true,
+        passive: true,
+      });
+      window.addEventListener("resize", invalidate);
+      return () => {
+        window.removeEventListener("scroll", invalidate, { capture: true });
+        window.removeEventListener("resize", invalidate);
+        nodes.forEach(removeNode);
+        root = null;
+      };
+    },
+    invalidate,
+    update() {
+      if (!root || !isStale) {
+        return;
+      }
+      isStale = false;
+      const ordered = getOrderedSources();
+      const seen = new Set<Container | Object3D>();
+      let index = 0;
+      for (const { getSource, source } of ordered) {
+        for (const object of collect(source)) {
+          seen.add(object);
+          let node = nodes.get(object);
+          if (
+            node &&
+            (node.getSource !== getSource ||
+              node.element.tagName.toLowerCase() !== getTagName(object))
+          ) {
+            removeNode(node);
+            node = undefined;
+          }
+          if (!node) {
+            node = createNode(object, getSource);
+            nodes.set(object, node);
+          }
+          updateNode(node, source);
+          // Keep the DOM order in tree order without moving unchanged nodes
+          const current = root.children[index];
+          if (current !== node.element) {
+            root.insertBefore(node.element, current ?? null);
+          }
+          index++;
+        }
+      }
+      nodes.forEach((node) => {
+        if (!seen.has(node.object)) {
+          removeNode(node);
+        }
+      });
+    },
+  };
+}
+
+/**
+ * Registers a layer with the accessibility tree of the {@link RenderContext},
+ * nested in the enclosing layer.
+ *
+ * @internal
+ * @param tree - The accessibility tree
+ * @param source - The layer, with functions that may change between renders
+ * @returns The layer, provide it to nested layers with
+ * {@link AccessibilityLayerContext}
+ */
+export function useAccessibilitySource(
+  tree: AccessibilityTree,
+  source: AccessibilitySourceOptions,
+) {
+  const parent = useContext(AccessibilityLayerContext);
+  const [layer] = useState<AccessibilityLayer>(() => ({ parent }));
+  const onGetSource = useEffectEvent(
+    (): AccessibilitySource => ({ ...source, layer }),
+  );
+
+  useEffect(() => tree.addSource(() => onGetSource()), [tree]);
+
+  return layer;
+}
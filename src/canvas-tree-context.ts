@@ -6,6 +6,8 @@ import {
   useSyncExternalStore,
 } from "react";
 
+import { type RenderGraphNode } from "./render-graph";
+
 /**
  * @category hook
  * @expand
@@ -27,6 +29,7 @@ interface CanvasTreeStore {
 export interface CanvasTreeContextValue {
   store: CanvasTreeStore;
   invalidate: () => void;
+  renderNode: RenderGraphNode;
 }
 
 /** @internal */
@@ -1,6 +1,9 @@
 import { type Container, type Point } from "pixi.js";
 import { createContext, type RefObject, useContext } from "react";
 
+import { type PickHit, type PickLayer } from "./pick";
+import { type CanvasCursor } from "./use-cursor";
+
 /** @internal */
 export interface CanvasViewContextValue {
   canvasRef: RefObject<HTMLCanvasElement>;
@@ -10,6 +13,22 @@ export interface CanvasViewContextValue {
     client: Point | { clientX: number; clientY: number },
     out?: Point,
   ) => Point;
+  /** Nested scenes and textures, see {@link usePickLayer} */
+  pickLayers: Set<PickLayer>;
+  /**
+   * Picks the content under DOM client coordinates through every layer.
+   * @param client - DOM client coordinates
+   * @returns The hit in each layer, outermost first, empty on a miss
+   */
+  pick: (client: Point | { clientX: number; clientY: number }) => PickHit[];
+  /**
+   * Picks the content under viewport coordinates through every layer.
+   * @param viewport - Viewport Point coordinates
+   * @returns The hit in each layer, outermost first, empty on a miss
+   */
+  pickViewport: (viewport: Point) => PickHit[];
+  /** Cursor of the canvas, see {@link useCursor} */
+  cursor: CanvasCursor;
 }
 
 /** @internal */
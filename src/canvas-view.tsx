@@ -1,7 +1,8 @@
-import { extend, useApplication, useTick } from "@pixi/react";
+import { extend, useApplication } from "@pixi/react";
 import {
   CanvasSource,
   Container,
+  EventBoundary,
   Point,
   Rectangle,
   RenderTarget,
@@ -13,20 +14,33 @@ import {
   type Ref,
   type RefObject,
   useEffect,
+  useEffectEvent,
   useId,
   useImperativeHandle,
   useRef,
   useState,
 } from "react";
 
+import {
+  AccessibilityLayerContext,
+  useAccessibilitySource,
+} from "./accessibility-tree";
 import {
   mapClientToViewport,
   mapViewportToClient as mapViewportToClientUtil,
 } from "./bijections";
 import { CanvasTreeContext, useCanvasTreeStore } from "./canvas-tree-context";
 import { CanvasViewContext as CanvasViewContentContext } from "./canvas-view-context";
+import { createDragRouter } from "./drag-events";
+import { useGestureLayer } from "./gestures";
+import { dispatchPointer } from "./inject-pointer";
+import { type PickLayer, pickLayerPath, type PixiPickHit } from "./pick";
+import { usePixiDragLayer } from "./pixi-drag";
 import { useRenderContext } from "./render-context-hooks";
+import { createCanvasCursor, getPickPathCursor } from "./use-cursor";
+import { type CanvasViewHandle, useOfflineRender } from "./use-offline-render";
 import { usePixiEventDispatch } from "./use-pixi-event-dispatch";
+import { useRenderCallback, useRenderNode } from "./use-render-node";
 import { useRenderSchedule } from "./use-render-schedule";
 
 extend({ Container });
@@ -38,6 +52,13 @@ extend({ Container });
  * @expand
  */
 export interface CanvasViewProps extends PropsWithChildren {
+  /** Optional ref to the {@link CanvasViewHandle} */
+  ref?: Ref<CanvasViewHandle>;
+  /**
+   * Optional id of the canvas view in input traces, see {@link useInputRecorder}.
+   * Defaults to a React id, which changes with the component tree.
+   */
+  id?: string;
   /** Class name for the canvas element, default "h-full w-full" */
   className?: string;
   /** Canvas fallback content */
@@ -78,6 +99,8 @@ export interface CanvasViewProps extends PropsWithChildren {
  * ```
  */
 export function CanvasView({
+  ref,
+  id: idProp,
   className = "h-full w-full",
   fallback,
   children,
@@ -89,7 +112,8 @@ export function CanvasView({
   onRender,
   canvasRef: canvasRefProp,
 }: CanvasViewProps) {
-  const id = useId();
+  const reactId = useId();
+  const id = idProp ?? reactId;
   const { tunnel } = useRenderContext();
   const canvasRef = useRef<HTMLCanvasElement>(null!);
   useImperativeHandle(canvasRefProp, () => canvasRef.current);
@@ -185,7 +209,9 @@ export function CanvasView({
       </div>
       <tunnel.In>
         <CanvasViewContent
-          key={id}
+          key={reactId}
+          id={id}
+          handleRef={ref}
           canvasRef={canvasRef}
           containerRef={containerRef}
           renderTargetRef={renderTargetRef}
@@ -201,6 +227,10 @@ export function CanvasView({
 }
 
 interface CanvasViewContentProps extends PropsWithChildren {
+  /** Id of the canvas view in input traces */
+  id: string;
+  /** Canvas view handle ref */
+  handleRef?: Ref<CanvasViewHandle>;
   /** Canvas element ref */
   canvasRef: RefObject<HTMLCanvasElement>;
   /** Pixi Container ref */
@@ -216,6 +246,8 @@ interface CanvasViewContentProps extends PropsWithChildren {
 }
 
 function CanvasViewContent({
+  id,
+  handleRef,
   canvasRef,
   containerRef: containerRefProp,
   renderTargetRef,
@@ -330,26 +362,268 @@ function CanvasViewContent({
     });
   }
 
-  useTick({
-    callback: () => {
-      if (frameloop === "always" || isFrameRequested()) {
-        const pendingSize = pendingSizeRef.current;
-        const appliedSize = appliedSizeRef.current;
-        if (
-          pendingSize.width !== appliedSize.width ||
-          pendingSize.height !== appliedSize.height
-        ) {
-          appliedSizeRef.current = pendingSize;
-          updateSnapshot(pendingSize);
-          notifySubscribers();
-        }
+  function renderFrame() {
+    const pendingSize = pendingSizeRef.current;
+    const appliedSize = appliedSizeRef.current;
+    if (
+      pendingSize.width !== appliedSize.width ||
+      pendingSize.height !== appliedSize.height
+    ) {
+      appliedSizeRef.current = pendingSize;
+      updateSnapshot(pendingSize);
+      notifySubscribers();
+    }
+
+    render();
+    onRender?.();
+    signalFrame();
+    accessibilityTree.invalidate();
+    markFrameRendered();
+  }
+
+  const { renderOffline, markFrameRendered } = useOfflineRender({
+    canvasRef,
+    renderFrame,
+  });
+
+  useImperativeHandle(handleRef, () => ({
+    renderOffline,
+    injectPointer: (init) => dispatchPointer(canvasRef.current, init),
+  }));
 
-        render();
-        onRender?.();
-        signalFrame();
+  function mapViewportToClientPoint(viewportPoint: Point, out?: Point) {
+    const canvas = canvasRef.current;
+    const rect = canvas?.isConnected
+      ? canvas.getBoundingClientRect()
+      : {
+          left: 0,
+          top: 0,
+          width: canvas?.width ?? 1,
+          height: canvas?.height ?? 1,
+        };
+    const viewport = (containerRef.current?.hitArea as Rectangle) ?? {
+      width: 1,
+      height: 1,
+    };
+    return mapViewportToClientUtil(viewportPoint, viewport, rect, out);
+  }
+
+  function mapClientToViewportPoint(
+    client: Point | { clientX: number; clientY: number },
+    out?: Point,
+  ) {
+    const canvas = canvasRef.current;
+    const rect = canvas?.isConnected
+      ? canvas.getBoundingClientRect()
+      : {
+          left: 0,
+          top: 0,
+          width: canvas?.width ?? 1,
+          height: canvas?.height ?? 1,
+        };
+    const viewport = (containerRef.current?.hitArea as Rectangle) ?? {
+      width: 1,
+      height: 1,
+    };
+    return mapClientToViewport(client, rect, viewport, out);
+  }
+
+  const [pickLayers] = useState(() => new Set<PickLayer>());
+
+  function pickViewport(viewport: Point) {
+    const container = containerRef.current;
+    if (!container) {
+      return [];
+    }
+    // Same hit test as pointer events in ThreeScene
+    const point = container.toGlobal(viewport);
+    const target = new EventBoundary(container).hitTest(point.x, point.y);
+    return pickLayerPath(
+      target ? { type: "pixi", container, target, point } : null,
+      pickLayers,
+    );
+  }
+
+  const { recorder, focusManager, accessibilityTree, gestures, pixiDrag } =
+    useRenderContext();
+
+  const _global = new Point();
+  const accessibilityLayer = useAccessibilitySource(accessibilityTree, {
+    type: "pixi",
+    getRoot: () => containerRef.current,
+    mapPixiToClient: (local, out) =>
+      mapViewportToClientPoint(
+        containerRef.current.toGlobal(local, _global),
+        out,
+      ),
+  });
+
+  const _viewport = new Point();
+  useGestureLayer(gestures, {
+    getRoot: () => containerRef.current,
+    mapClientToGlobal: (client, out) =>
+      containerRef.current.toGlobal(
+        mapClientToViewportPoint(client, _viewport),
+        out,
+      ),
+  });
+
+  const _dragLocal = new Point();
+  usePixiDragLayer(pixiDrag, {
+    getRoot: () => containerRef.current,
+    mapGlobalToClient: (global, out) =>
+      mapViewportToClientPoint(
+        containerRef.current.toLocal(global, undefined, _dragLocal),
+        out,
+      ),
+  });
+
+  const onGetCanvas = useEffectEvent(() => canvasRef.current);
+  const onDragPick = useEffectEvent(
+    (client: { clientX: number; clientY: number }) =>
+      pickViewport(mapClientToViewportPoint(client)),
+  );
+
+  useEffect(
+    () =>
+      pixiDrag.addView({
+        getCanvas: () => onGetCanvas(),
+        pick: (client) => onDragPick(client),
+      }),
+    [pixiDrag],
+  );
+
+  useEffect(() => focusManager.addRoot(containerRef, false), [focusManager]);
+
+  const onPickPointerDown = useEffectEvent((event: PointerEvent) => {
+    const path = pickViewport(mapClientToViewportPoint(event));
+    if (event.button === 0) {
+      focusManager.focusPath(path);
+    }
+    const hit = path
+      .filter((hit): hit is PixiPickHit => hit.type === "pixi")
+      .at(-1);
+    if (hit) {
+      gestures.pointerDown(event, hit);
+    }
+  });
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const onPointerDown = (event: PointerEvent) => {
+      onPickPointerDown(event);
+    };
+    // Keep DOM focus on the focus proxy while a Pixi container has focus
+    const onMouseDown = (event: MouseEvent) => {
+      if (focusManager.getSnapshot()) {
+        event.preventDefault();
       }
-    },
-    isEnabled: isVisible,
+    };
+    canvas.addEventListener("pointerdown", onPointerDown);
+    canvas.addEventListener("mousedown", onMouseDown);
+    return () => {
+      canvas.removeEventListener("pointerdown", onPointerDown);
+      canvas.removeEventListener("mousedown", onMouseDown);
+    };
+  }, [canvasRef, focusManager]);
+
+  const [dragRouter] = useState(createDragRouter);
+
+  const onDrag = useEffectEvent((event: DragEvent) => {
+    dragRouter.dispatch(
+      event,
+      event.type === "dragleave"
+        ? []
+        : pickViewport(mapClientToViewportPoint(event)),
+    );
+  });
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const onDragEvent = (event: DragEvent) => {
+      onDrag(event);
+    };
+    canvas.addEventListener("dragenter", onDragEvent);
+    canvas.addEventListener("dragover", onDragEvent);
+    canvas.addEventListener("dragleave", onDragEvent);
+    canvas.addEventListener("drop", onDragEvent);
+    return () => {
+      canvas.removeEventListener("dragenter", onDragEvent);
+      canvas.removeEventListener("dragover", onDragEvent);
+      canvas.removeEventListener("dragleave", onDragEvent);
+      canvas.removeEventListener("drop", onDragEvent);
+    };
+  }, [canvasRef]);
+
+  const [cursor] = useState(createCanvasCursor);
+
+  const onCursorPointerMove = useEffectEvent((event: PointerEvent) => {
+    if (event.pointerType !== "touch") {
+      cursor.setHovered(
+        getPickPathCursor(pickViewport(mapClientToViewportPoint(event))),
+      );
+    }
+  });
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    // Picks at most once per frame, with the latest pointer position
+    let pendingEvent: PointerEvent | null = null;
+    let frame = 0;
+    const onFrame = () => {
+      frame = 0;
+      if (pendingEvent) {
+        onCursorPointerMove(pendingEvent);
+        pendingEvent = null;
+      }
+    };
+    const onPointerMove = (event: PointerEvent) => {
+      pendingEvent = event;
+      if (!frame) {
+        frame = requestAnimationFrame(onFrame);
+      }
+    };
+    const onPointerLeave = () => {
+      pendingEvent = null;
+      cursor.setHovered("");
+    };
+    canvas.addEventListener("pointerover", onPointerMove);
+    canvas.addEventListener("pointermove", onPointerMove);
+    canvas.addEventListener("pointerleave", onPointerLeave);
+    const disconnect = cursor.connect(canvas);
+    return () => {
+      canvas.removeEventListener("pointerover", onPointerMove);
+      canvas.removeEventListener("pointermove", onPointerMove);
+      canvas.removeEventListener("pointerleave", onPointerLeave);
+      cancelAnimationFrame(frame);
+      disconnect();
+    };
+  }, [canvasRef, cursor]);
+
+  const onMapViewportToClient = useEffectEvent(mapViewportToClientPoint);
+  const onMapClientToViewport = useEffectEvent(mapClientToViewportPoint);
+  const onPickViewport = useEffectEvent(pickViewport);
+
+  useEffect(
+    () =>
+      recorder.addView({
+        id,
+        canvas: canvasRef.current,
+        mapViewportToClient: (viewport, out) =>
+          onMapViewportToClient(viewport, out),
+        mapClientToViewport: (client, out) =>
+          onMapClientToViewport(client, out),
+        pickViewport: (viewport) => onPickViewport(viewport),
+      }),
+    [canvasRef, id, recorder],
+  );
+
+  const renderNode = useRenderNode({ label: "canvas-view" });
+
+  useRenderCallback(renderNode, () => {
+    if (isVisible && (frameloop === "always" || isFrameRequested())) {
+      renderFrame();
+    }
   });
 
   return (
@@ -357,41 +631,15 @@ function CanvasViewContent({
       value={{
         canvasRef,
         containerRef,
-        mapViewportToClient: (viewportPoint, out?) => {
-          const canvas = canvasRef.current;
-          const rect = canvas?.isConnected
-            ? canvas.getBoundingClientRect()
-            : {
-                left: 0,
-                top: 0,
-                width: canvas?.width ?? 1,
-                height: canvas?.height ?? 1,
-              };
-          const viewport = (containerRef.current?.hitArea as Rectangle) ?? {
-            width: 1,
-            height: 1,
-          };
-          return mapViewportToClientUtil(viewportPoint, viewport, rect, out);
-        },
-        mapClientToViewport: (client, out?) => {
-          const canvas = canvasRef.current;
-          const rect = canvas?.isConnected
-            ? canvas.getBoundingClientRect()
-            : {
-                left: 0,
-                top: 0,
-                width: canvas?.width ?? 1,
-                height: canvas?.height ?? 1,
-              };
-          const viewport = (containerRef.current?.hitArea as Rectangle) ?? {
-            width: 1,
-            height: 1,
-          };
-          return mapClientToViewport(client, rect, viewport, out);
-        },
+        mapViewportToClient: mapViewportToClientPoint,
+        mapClientToViewport: mapClientToViewportPoint,
+        pickLayers,
+        pick: (client) => pickViewport(mapClientToViewportPoint(client)),
+        pickViewport,
+        cursor,
       }}
     >
-      <CanvasTreeContext value={{ store, invalidate }}>
+      <CanvasTreeContext value={{ store, invalidate, renderNode }}>
         <pixiContainer
           ref={(ref) => {
             if (!ref) {
@@ -412,7 +660,9 @@ function CanvasViewContent({
             }
           }}
         >
-          {children}
+          <AccessibilityLayerContext value={accessibilityLayer}>
+            {children}
+          </AccessibilityLayerContext>
         </pixiContainer>
       </CanvasTreeContext>
     </CanvasViewContentContext>
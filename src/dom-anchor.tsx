@@ -0,0 +1,250 @@
+import { useTick } from "@pixi/react";
+import { context as threeContext, type Instance } from "@react-three/fiber";
+import { traverseFiber, useContextBridge, useFiber } from "its-fine";
+import { Container, Point, UPDATE_PRIORITY } from "pixi.js";
+import {
+  type CSSProperties,
+  type PropsWithChildren,
+  type Ref,
+  useContext,
+  useId,
+  useImperativeHandle,
+  useRef,
+} from "react";
+import { Object3D, Vector2, Vector3 } from "three";
+
+import { useCanvasView } from "./canvas-view-context";
+import {
+  usePixiTextureContextOptional,
+  usePixiViewContext,
+} from "./pixi-texture-context";
+import { useRenderContext } from "./render-context-hooks";
+import { useThreeSceneContextOptional } from "./three-scene-context";
+
+/** Browsers clamp larger z-indices to 2147483647 */
+const DEFAULT_Z_INDEX_RANGE: [number, number] = [2147483647, 0];
+
+/**
+ * See {@link DomAnchor}.
+ *
+ * @category component
+ * @expand
+ */
+export interface DomAnchorProps extends PropsWithChildren {
+  /** Ref to the positioned DOM element */
+  ref?: Ref<HTMLDivElement>;
+  /**
+   * Optional offset from the origin of the parent Object3D or Container,
+   * in its local coordinates, defaults to the origin
+   */
+  position?: [x: number, y: number, z?: number];
+  /** Centers children on the anchor, defaults to true */
+  center?: boolean;
+  /** Hides children when other Three objects are in front of the anchor, defaults to false */
+  occlude?: boolean;
+  /**
+   * Optional scale at a camera distance of 1, children shrink with distance.
+   * Defaults to undefined, which does not scale.
+   */
+  distanceFactor?: number;
+  /**
+   * z-index of the nearest and farthest anchors in Three content,
+   * defaults to [2147483647, 0]
+   */
+  zIndexRange?: [near: number, far: number];
+  /** Class name of the positioned DOM element */
+  className?: string;
+  /** Style of the positioned DOM element */
+  style?: CSSProperties;
+}
+
+/**
+ * DOM children positioned over a Three object or Pixi container, e.g. for
+ * labels, tooltips and form controls.
+ *
+ * It can be inside a {@link ThreeScene}, {@link ThreeRenderTexture},
+ * {@link PixiTexture} or {@link CanvasView}. Children render into the
+ * {@link RenderContext} DOM tree with `position: fixed`, following the
+ * parent through every nested texture after each frame.
+ *
+ * @category component
+ * @param props - Component props
+ * @example
+ * ```tsx
+ * <ThreeScene>
+ *   <mesh>
+ *     <boxGeometry />
+ *     <meshBasicMaterial />
+ *     <DomAnchor position={[0, 0.75, 0]} occlude>
+ *       <label>
+ *         Name <input />
+ *       </label>
+ *     </DomAnchor>
+ *   </mesh>
+ * </ThreeScene>
+ * ```
+ */
+export function DomAnchor({
+  ref,
+  position,
+  center = true,
+  occlude = false,
+  distanceFactor,
+  zIndexRange = DEFAULT_Z_INDEX_RANGE,
+  className,
+  style,
+  children,
+}: DomAnchorProps) {
+  const ContextBridge = useContextBridge();
+  const { domTunnel } = useRenderContext();
+  const fiber = useFiber();
+  const threeStore = useContext(threeContext);
+  const threeSceneContext = useThreeSceneContextOptional();
+  const pixiTextureContext = usePixiTextureContextOptional();
+  const canvasView = useCanvasView();
+  const { mapPixiToClient } = usePixiViewContext();
+  const key = useId();
+
+  const elementRef = useRef<HTMLDivElement>(null!);
+  useImperativeHandle(ref, () => elementRef.current);
+  const lastStyle = useRef({ transform: "", visibility: "", zIndex: "" });
+
+  const _client = new Point();
+  const _global = new Point();
+  const _local = new Point();
+  const _world = new Vector3();
+  const _ndc = new Vector3();
+  const _cameraPosition = new Vector3();
+
+  /** Nearest Object3D or Container, whichever renderer this is in */
+  function getParent() {
+    let parent: Object3D | Container | undefined;
+    traverseFiber(fiber, true, (node) => {
+      const object = (node.stateNode as Instance<unknown> | null)?.object;
+      if (object instanceof Object3D) {
+        parent = object;
+      } else if (node.stateNode instanceof Container) {
+        parent = node.stateNode;
+      }
+      return !!parent;
+    });
+    return parent;
+  }
+
+  function updateThree(object: Object3D | undefined) {
+    if (!threeStore || !threeSceneContext) {
+      return null;
+    }
+    const { camera, scene } = threeStore.getState();
+    const target = object ?? scene;
+    target.updateWorldMatrix(true, false);
+    _world
+      .set(position?.[0] ?? 0, position?.[1] ?? 0, position?.[2] ?? 0)
+      .applyMatrix4(target.matrixWorld);
+    _ndc.copy(_world).project(camera);
+    if (_ndc.z < -1 || _ndc.z > 1) {
+      return null;
+    }
+    const [client] = threeSceneContext.mapThreeToClient(_world, _client);
+    if (!client) {
+      return null;
+    }
+
+    camera.getWorldPosition(_cameraPosition);
+    const distance = _cameraPosition.distanceTo(_world);
+    if (occlude) {
+      const [hit] = threeSceneContext
+        .raycastNdc(new Vector2(_ndc.x, _ndc.y))
+        .filter((intersection) => intersection.object !== object);
+      if (hit && hit.distance < distance - 1e-3) {
+        return null;
+      }
+    }
+
+    let scale = 1;
+    if (distanceFactor !== undefined) {
+      scale =
+        "isOrthographicCamera" in camera
+          ? distanceFactor * camera.zoom
+          : distanceFactor / distance;
+    }
+    const [near, far] = zIndexRange;
+    const zIndex = Math.round(near + ((far - near) * (_ndc.z + 1)) / 2);
+    return { client, scale, zIndex };
+  }
+
+  function updatePixi(container: Container) {
+    if (!container.visible) {
+      return null;
+    }
+    const root = pixiTextureContext?.containerRef ?? canvasView.containerRef;
+    _local.set(position?.[0] ?? 0, position?.[1] ?? 0);
+    container.toGlobal(_local, _global);
+    root.current.toLocal(_global, undefined, _local);
+    const [client] = mapPixiToClient(_local, _client);
+    if (!client) {
+      return null;
+    }
+    return { client, scale: 1, zIndex: zIndexRange[0] };
+  }
+
+  function update() {
+    const element = elementRef.current;
+    if (!element) {
+      return;
+    }
+    const parent = getParent();
+    const anchor =
+      parent instanceof Container ? updatePixi(parent) : updateThree(parent);
+
+    const next = anchor
+      ? {
+          // Scales around the anchor, then centers in scaled units
+          transform: `translate(${anchor.client.x}px, ${anchor.client.y}px)${anchor.scale !== 1 ? ` scale(${anchor.scale})` : ""}${center ? " translate(-50%, -50%)" : ""}`,
+          visibility: "visible",
+          zIndex: `${anchor.zIndex}`,
+        }
+      : { ...lastStyle.current, visibility: "hidden" };
+
+    // Only touch the DOM when the anchor moved
+    const last = lastStyle.current;
+    if (next.transform !== last.transform) {
+      element.style.transform = next.transform;
+    }
+    if (next.visibility !== last.visibility) {
+      element.style.visibility = next.visibility;
+    }
+    if (next.zIndex !== last.zIndex) {
+      element.style.zIndex = next.zIndex;
+    }
+    lastStyle.current = next;
+  }
+
+  useTick({
+    callback: update,
+    // After the render graph, so the anchor matches the rendered frame
+    priority: UPDATE_PRIORITY.UTILITY - 1,
+  });
+
+  return (
+    <domTunnel.In>
+      {/* eslint-disable-next-line react-hooks/static-components -- stable, memoized by its-fine */}
+      <ContextBridge key={key}>
+        <div
+          ref={elementRef}
+          className={className}
+          style={{
+            position: "fixed",
+            top: 0,
+            left: 0,
+            transformOrigin: "0 0",
+            visibility: "hidden",
+            ...style,
+          }}
+        >
+          {children}
+        </div>
+      </ContextBridge>
+    </domTunnel.In>
+  );
+}
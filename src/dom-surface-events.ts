@@ -0,0 +1,21 @@
+/**
+ * Marks {@link DomSurface} elements, so Pixi and Three hit testing can skip
+ * their events.
+ * @internal
+ */
+export const DOM_SURFACE_ATTRIBUTE = "data-dom-surface";
+
+/**
+ * Checks if an event targets a {@link DomSurface}, which covers the content
+ * underneath.
+ *
+ * @internal
+ * @param event - The DOM event
+ * @returns True if the event belongs to the DOM element
+ */
+export function isDomSurfaceEvent(event: Event) {
+  return (
+    event.target instanceof Element &&
+    event.target.closest(`[${DOM_SURFACE_ATTRIBUTE}]`) !== null
+  );
+}
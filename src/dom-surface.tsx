@@ -0,0 +1,239 @@
+import { useTick } from "@pixi/react";
+import { useThree } from "@react-three/fiber";
+import { useContextBridge } from "its-fine";
+import { Point, UPDATE_PRIORITY } from "pixi.js";
+import {
+  type CSSProperties,
+  type PropsWithChildren,
+  type Ref,
+  useId,
+  useImperativeHandle,
+  useRef,
+} from "react";
+import { type Group, Vector3 } from "three";
+
+import { DOM_SURFACE_ATTRIBUTE } from "./dom-surface-events";
+import { useRenderContext } from "./render-context-hooks";
+import { useThreeSceneContext } from "./three-scene-context";
+
+/**
+ * See {@link DomSurface}.
+ *
+ * @category component
+ * @expand
+ */
+export interface DomSurfaceProps extends PropsWithChildren {
+  /** Ref to the transformed DOM element */
+  ref?: Ref<HTMLDivElement>;
+  /**
+   * Size of the surface on the local XY plane of the parent object,
+   * centered on its origin, defaults to [1, 1] like a planeGeometry
+   */
+  size?: [width: number, height: number];
+  /** Width of the DOM element in CSS pixels, defaults to 512 */
+  width?: number;
+  /** Height of the DOM element in CSS pixels, defaults to 512 */
+  height?: number;
+  /** Shows the element when the surface faces away from the camera, defaults to false */
+  doubleSided?: boolean;
+  /** Class name of the transformed DOM element */
+  className?: string;
+  /** Style of the transformed DOM element */
+  style?: CSSProperties;
+}
+
+/**
+ * Interactive DOM children glued onto a planar face of a Three object, e.g.
+ * text inputs, iframes or video.
+ *
+ * It must be inside a {@link ThreeScene}. Children render into the
+ * {@link RenderContext} DOM tree, with a CSS `matrix3d` that maps the element
+ * onto the face through the camera, the scene sprite and the canvas. Pointer
+ * events over the element reach it instead of the Pixi and Three content
+ * underneath.
+ *
+ * @category component
+ * @param props - Component props
+ * @example
+ * ```tsx
+ * <mesh>
+ *   <planeGeometry args={[2, 1]} />
+ *   <meshBasicMaterial color="black" />
+ *   <DomSurface size={[2, 1]} width={800} height={400}>
+ *     <iframe src="https://example.com" className="h-full w-full" />
+ *   </DomSurface>
+ * </mesh>
+ * ```
+ */
+export function DomSurface({
+  ref,
+  size = [1, 1],
+  width = 512,
+  height = 512,
+  doubleSided = false,
+  className,
+  style,
+  children,
+}: DomSurfaceProps) {
+  const ContextBridge = useContextBridge();
+  const { domTunnel } = useRenderContext();
+  const { mapThreeToClient } = useThreeSceneContext();
+  const get = useThree((state) => state.get);
+  const key = useId();
+
+  const groupRef = useRef<Group>(null!);
+  const elementRef = useRef<HTMLDivElement>(null!);
+  useImperativeHandle(ref, () => elementRef.current);
+  const lastStyle = useRef({ transform: "", visibility: "" });
+
+  const corners = [new Point(), new Point(), new Point(), new Point()];
+  const _world = new Vector3();
+  const _ndc = new Vector3();
+
+  /** Maps the element corners, clockwise from top left, to client coordinates */
+  function mapCorners() {
+    const group = groupRef.current;
+    const { camera } = get();
+    group.updateWorldMatrix(true, false);
+    for (let i = 0; i < 4; i++) {
+      _world
+        .set(
+          (i === 1 || i === 2 ? 0.5 : -0.5) * size[0],
+          (i < 2 ? 0.5 : -0.5) * size[1],
+          0,
+        )
+        .applyMatrix4(group.matrixWorld);
+      _ndc.copy(_world).project(camera);
+      if (_ndc.z < -1 || _ndc.z > 1) {
+        return false;
+      }
+      const [client] = mapThreeToClient(_world, corners[i]);
+      if (!client) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  function update() {
+    const element = elementRef.current;
+    if (!element || !groupRef.current) {
+      return;
+    }
+    const matrix = mapCorners() ? getQuadMatrix(corners, width, height) : null;
+    const isFacing =
+      !!matrix &&
+      (doubleSided || getSignedArea(corners) > 0) &&
+      matrix.every(Number.isFinite);
+
+    const next = isFacing
+      ? { transform: `matrix3d(${matrix.join(",")})`, visibility: "visible" }
+      : { ...lastStyle.current, visibility: "hidden" };
+
+    // Only touch the DOM when the surface moved
+    const last = lastStyle.current;
+    if (next.transform !== last.transform) {
+      element.style.transform = next.transform;
+    }
+    if (next.visibility !== last.visibility) {
+      element.style.visibility = next.visibility;
+    }
+    lastStyle.current = next;
+  }
+
+  useTick({
+    callback: update,
+    // After the render graph, so the surface matches the rendered frame
+    priority: UPDATE_PRIORITY.UTILITY - 1,
+  });
+
+  return (
+    <>
+      <group ref={groupRef} />
+      <domTunnel.In>
+        {/* eslint-disable-next-line react-hooks/static-components -- stable, memoized by its-fine */}
+        <ContextBridge key={key}>
+          <div
+            ref={elementRef}
+            {...{ [DOM_SURFACE_ATTRIBUTE]: "" }}
+            className={className}
+            style={{
+              position: "fixed",
+              top: 0,
+              left: 0,
+              width,
+              height,
+              transformOrigin: "0 0",
+              visibility: "hidden",
+              ...style,
+            }}
+          >
+            {children}
+          </div>
+        </ContextBridge>
+      </domTunnel.In>
+    </>
+  );
+}
+
+/**
+ * Twice the signed area of a quad, positive when its corners are clockwise
+ * on screen.
+ */
+function getSignedArea(quad: Point[]) {
+  let area = 0;
+  for (let i = 0; i < quad.length; i++) {
+    const a = quad[i];
+    const b = quad[(i + 1) % quad.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return area;
+}
+
+/**
+ * Gets the column-major CSS matrix3d that maps a width by height element onto
+ * a quad, with its corners clockwise from top left.
+ *
+ * @see {@link https://en.wikipedia.org/wiki/Homography | Homography}
+ */
+function getQuadMatrix(quad: Point[], width: number, height: number) {
+  const [p0, p1, p2, p3] = quad;
+  const dx1 = p1.x - p2.x;
+  const dx2 = p3.x - p2.x;
+  const dx3 = p0.x - p1.x + p2.x - p3.x;
+  const dy1 = p1.y - p2.y;
+  const dy2 = p3.y - p2.y;
+  const dy3 = p0.y - p1.y + p2.y - p3.y;
+
+  let g = 0;
+  let h = 0;
+  if (dx3 !== 0 || dy3 !== 0) {
+    const denominator = dx1 * dy2 - dx2 * dy1;
+    g = (dx3 * dy2 - dx2 * dy3) / denominator;
+    h = (dx1 * dy3 - dx3 * dy1) / denominator;
+  }
+  const a = p1.x - p0.x + g * p1.x;
+  const b = p3.x - p0.x + h * p3.x;
+  const d = p1.y - p0.y + g * p1.y;
+  const e = p3.y - p0.y + h * p3.y;
+
+  // The homography maps the unit square, so scale it to the element size
+  return [
+    a / width,
+    d / width,
+    0,
+    g / width,
+    b / height,
+    e / height,
+    0,
+    h / height,
+    0,
+    0,
+    1,
+    0,
+    p0.x,
+    p0.y,
+    0,
+    1,
+  ];
+}
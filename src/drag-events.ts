@@ -0,0 +1,223 @@
+import { type Container, EventBoundary, FederatedEvent, Point } from "pixi.js";
+import { type Intersection, type Object3D } from "three";
+
+import { type PickHit } from "./pick";
+
+// Object3D only merges with its declaring module
+declare module "three/src/core/Object3D.js" {
+  interface Object3D {
+    /** See {@link ThreeDragEvent} */
+    onDragEnter?: (event: ThreeDragEvent) => void;
+    /** See {@link ThreeDragEvent} */
+    onDragOver?: (event: ThreeDragEvent) => void;
+    /** See {@link ThreeDragEvent} */
+    onDragLeave?: (event: ThreeDragEvent) => void;
+    /** See {@link ThreeDragEvent} */
+    onDrop?: (event: ThreeDragEvent) => void;
+  }
+}
+
+/**
+ * Type of a routed DOM drag event.
+ *
+ * @category hook
+ */
+export type DragEventType = "dragenter" | "dragover" | "dragleave" | "drop";
+
+/**
+ * Federated drag event, dispatched to the Pixi target under a DOM drag in a
+ * {@link CanvasView} or {@link PixiTexture} and bubbling to its parents.
+ *
+ * Call `preventDefault()` in `dragover` to accept a drop, like in the DOM.
+ * `dragenter` and `dragleave` are dispatched as the drag moves between
+ * targets, and `drop` ends the drag without a `dragleave`. Targets must be
+ * interactive.
+ *
+ * @category hook
+ * @example
+ * ```tsx
+ * const ref = useRef<Sprite>(null!);
+ * useEffect(() => {
+ *   const sprite = ref.current;
+ *   sprite.on("dragover", (event: FederatedDragEvent) => {
+ *     event.preventDefault();
+ *   });
+ *   sprite.on("drop", (event: FederatedDragEvent) => {
+ *     event.preventDefault();
+ *     const [file] = event.dataTransfer?.files ?? [];
+ *     const position = event.getLocalPosition(sprite);
+ *   });
+ * }, []);
+ * ```
+ */
+export class FederatedDragEvent extends FederatedEvent<DragEvent> {
+  /** See {@link https://developer.mozilla.org/en-US/docs/Web/API/DragEvent/dataTransfer | DragEvent.dataTransfer} */
+  dataTransfer: DataTransfer | null = null;
+  /** Point in the global coordinates of the layer, texture pixels in a {@link PixiTexture} */
+  global = new Point();
+
+  /**
+   * Maps the drag point to the local coordinates of a container.
+   * @param container - A container in the same layer
+   * @param out - Optional Point to store the result
+   * @returns The local point
+   */
+  getLocalPosition(container: Container, out?: Point) {
+    return container.toLocal(this.global, undefined, out);
+  }
+}
+
+/**
+ * Drag event passed to the `onDragEnter`, `onDragOver`, `onDragLeave` and
+ * `onDrop` props of Three objects in a {@link ThreeScene} or
+ * {@link ThreeRenderTexture}, bubbling from the intersected object to its
+ * parents.
+ *
+ * The intersection gives the world `point`, the `face` and the `uv` under
+ * the drag. Call `preventDefault()` in `onDragOver` to accept a drop.
+ *
+ * @category hook
+ * @expand
+ * @example
+ * ```tsx
+ * <mesh
+ *   onDragOver={(event) => event.preventDefault()}
+ *   onDrop={(event) => {
+ *     event.preventDefault();
+ *     const [file] = event.dataTransfer?.files ?? [];
+ *     if (file?.type.startsWith("image/")) {
+ *       setImage(event.face?.materialIndex ?? 0, URL.createObjectURL(file));
+ *     }
+ *   }}
+ * >
+ *   <boxGeometry />
+ * </mesh>
+ * ```
+ */
+export interface ThreeDragEvent extends Intersection {
+  type: DragEventType;
+  nativeEvent: DragEvent;
+  /** See {@link https://developer.mozilla.org/en-US/docs/Web/API/DragEvent/dataTransfer | DragEvent.dataTransfer} */
+  dataTransfer: DataTransfer | null;
+  /** Object whose handler is called */
+  eventObject: Object3D;
+  /** Stops the event from reaching parents and outer layers */
+  stopPropagation: () => void;
+  /** Accepts the drag or drop, see {@link https://developer.mozilla.org/en-US/docs/Web/API/Event/preventDefault | Event.preventDefault} */
+  preventDefault: () => void;
+}
+
+const threeHandlers = {
+  dragenter: "onDragEnter",
+  dragover: "onDragOver",
+  dragleave: "onDragLeave",
+  drop: "onDrop",
+} as const;
+
+/** @internal */
+export interface DragRouter {
+  /**
+   * Routes a DOM drag event of a canvas to the targets of a pick path.
+   * @param nativeEvent - The DOM drag event
+   * @param path - The pick path under the drag, empty when it left the canvas
+   */
+  dispatch: (nativeEvent: DragEvent, path: PickHit[]) => void;
+}
+
+function getHitTarget(hit: PickHit) {
+  return hit.type === "pixi" ? hit.target : hit.intersection.object;
+}
+
+/**
+ * Dispatches a drag event to one layer of a pick path.
+ * @returns Whether propagation to outer layers was stopped
+ */
+function dispatchHit(
+  hit: PickHit,
+  type: DragEventType,
+  nativeEvent: DragEvent,
+) {
+  if (hit.type === "pixi") {
+    const boundary = new EventBoundary(hit.container);
+    const event = new FederatedDragEvent(boundary);
+    event.target = hit.target;
+    event.nativeEvent = nativeEvent;
+    event.timeStamp = performance.now();
+    event.dataTransfer = nativeEvent.dataTransfer;
+    event.global.copyFrom(hit.point);
+    boundary.dispatchEvent(event, type);
+    return event.propagationStopped;
+  }
+
+  let stopped = false;
+  const key = threeHandlers[type];
+  let object: Object3D | null = hit.intersection.object;
+  while (object && !stopped) {
+    const handler = object[key];
+    if (handler) {
+      handler({
+        ...hit.intersection,
+        type,
+        nativeEvent,
+        dataTransfer: nativeEvent.dataTransfer,
+        eventObject: object,
+        stopPropagation: () => {
+          stopped = true;
+        },
+        preventDefault: () => {
+          nativeEvent.preventDefault();
+        },
+      });
+    }
+    object = object.parent;
+  }
+  return stopped;
+}
+
+/**
+ * Dispatches a drag event to the layers of a pick path, innermost first.
+ */
+function dispatchPath(
+  path: PickHit[],
+  type: DragEventType,
+  nativeEvent: DragEvent,
+) {
+  for (let i = path.length - 1; i >= 0; i--) {
+    if (dispatchHit(path[i], type, nativeEvent)) {
+      return;
+    }
+  }
+}
+
+/**
+ * Creates the drag router of a {@link CanvasView} canvas.
+ *
+ * The DOM only sees the canvas, so the router tracks the target in each
+ * layer and turns moves between targets into `dragleave` and `dragenter`.
+ *
+ * @internal
+ * @returns The drag router
+ */
+export function createDragRouter(): DragRouter {
+  let entered: PickHit[] = [];
+
+  return {
+    dispatch(nativeEvent, path) {
+      const type = nativeEvent.type as DragEventType;
+      const targets = path.map(getHitTarget);
+      const left = entered.filter(
+        (hit) => !targets.includes(getHitTarget(hit)),
+      );
+      const previousTargets = entered.map(getHitTarget);
+      const enteredNow = path.filter(
+        (hit) => !previousTargets.includes(getHitTarget(hit)),
+      );
+      dispatchPath(left, "dragleave", nativeEvent);
+      dispatchPath(enteredNow, "dragenter", nativeEvent);
+      entered = type === "drop" ? [] : path;
+      if (type === "dragover" || type === "drop") {
+        dispatchPath(path, type, nativeEvent);
+      }
+    },
+  };
+}
@@ -0,0 +1,100 @@
+import { type Texture } from "pixi.js";
+import { createContext, type RefObject, useContext, useEffect } from "react";
+import { type TextureNode } from "three/webgpu";
+
+import { CanvasTreeContext } from "./canvas-tree-context";
+import { useRenderContext } from "./render-context-hooks";
+
+/**
+ * Previous frame of a {@link PixiTexture} or {@link ThreeRenderTexture} in
+ * feedback mode. See {@link useFeedbackTexture}.
+ *
+ * @category hook
+ * @expand
+ */
+export interface FeedbackTexture {
+  /** {@link https://threejs.org/docs/#TextureNode | TextureNode} for Three content */
+  texture: TextureNode;
+  /**
+   * {@link https://pixijs.download/release/docs/rendering.Texture.html | Texture} for Pixi content,
+   * null inside a {@link ThreeRenderTexture}
+   */
+  pixiTexture: Texture | null;
+}
+
+/** @internal */
+export interface FeedbackTextureContextValue {
+  /** TextureNode of the texture, also its render graph output */
+  output: RefObject<TextureNode>;
+  pixiTexture: Texture | null;
+  /** Subscribes to buffer swaps */
+  subscribe: (callback: () => void) => () => void;
+}
+
+/** @internal */
+export const FeedbackTextureContext =
+  createContext<FeedbackTextureContextValue | null>(null);
+
+/**
+ * Gets the recursion depth of a feedback prop.
+ * @internal
+ */
+export function getFeedbackDepth(feedback: boolean | number | undefined) {
+  if (typeof feedback === "number") {
+    return Math.max(0, Math.floor(feedback));
+  }
+  return feedback ? 1 : 0;
+}
+
+/**
+ * Hook for sampling the previous frame of the nearest {@link PixiTexture} or
+ * {@link ThreeRenderTexture} with `feedback` enabled, e.g. for trails or an
+ * infinite mirror.
+ *
+ * The texture renders into a second buffer while its content samples the
+ * last one, and the calling view, scene or texture re-renders after each swap.
+ *
+ * @category hook
+ * @returns The previous frame textures
+ * @throws If called outside of a texture with `feedback` enabled
+ * @example
+ * ```tsx
+ * <meshBasicMaterial>
+ *   <PixiTexture attach="map" width={512} height={512} feedback={4}>
+ *     <ThreeScene>
+ *       <Mirror />
+ *     </ThreeScene>
+ *   </PixiTexture>
+ * </meshBasicMaterial>
+ *
+ * function Mirror() {
+ *   const { texture } = useFeedbackTexture();
+ *   return (
+ *     <mesh scale={0.8}>
+ *       <planeGeometry />
+ *       <meshBasicNodeMaterial colorNode={texture} />
+ *     </mesh>
+ *   );
+ * }
+ * ```
+ */
+export function useFeedbackTexture(): FeedbackTexture {
+  const { graph } = useRenderContext();
+  const context = useContext(FeedbackTextureContext);
+  const treeContext = useContext(CanvasTreeContext);
+  if (context === null || treeContext === null) {
+    throw Error(
+      "useFeedbackTexture() must be called within a <PixiTexture feedback /> or <ThreeRenderTexture feedback />",
+    );
+  }
+  const { output, subscribe, pixiTexture } = context;
+  const { renderNode, invalidate } = treeContext;
+
+  useEffect(
+    () => graph.addDependency(renderNode, output),
+    [graph, output, renderNode],
+  );
+  useEffect(() => subscribe(invalidate), [invalidate, subscribe]);
+
+  return { texture: output.current, pixiTexture };
+}
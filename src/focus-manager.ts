@@ -0,0 +1,496 @@
+import { type Container, EventBoundary, FederatedEvent } from "pixi.js";
+import { type RefObject } from "react";
+
+import { type PickHit } from "./pick";
+
+declare module "pixi.js" {
+  interface ContainerOptions {
+    /** See {@link Container.focusable} */
+    focusable?: boolean;
+  }
+
+  interface Container {
+    /**
+     * Whether the container takes keyboard focus when clicked, see
+     * {@link usePixiFocus}. Tab and Shift+Tab reach it unless its
+     * `tabIndex` is negative. Focusable containers must be interactive.
+     */
+    focusable?: boolean;
+  }
+}
+
+/**
+ * Federated `keydown` and `keyup` event of the focused Pixi container.
+ *
+ * @category hook
+ */
+export class FederatedKeyboardEvent extends FederatedEvent<KeyboardEvent> {
+  /** See {@link https://developer.mozilla.org/en-US/docs/Web/API/KeyboardEvent/key | KeyboardEvent.key} */
+  key = "";
+  /** See {@link https://developer.mozilla.org/en-US/docs/Web/API/KeyboardEvent/code | KeyboardEvent.code} */
+  code = "";
+  altKey = false;
+  ctrlKey = false;
+  metaKey = false;
+  shiftKey = false;
+  repeat = false;
+  isComposing = false;
+}
+
+/**
+ * Federated `input` event of the focused Pixi container.
+ *
+ * @category hook
+ */
+export class FederatedInputEvent extends FederatedEvent<InputEvent> {
+  /** Inserted text, see {@link https://developer.mozilla.org/en-US/docs/Web/API/InputEvent/data | InputEvent.data} */
+  text: string | null = null;
+  /** See {@link https://developer.mozilla.org/en-US/docs/Web/API/InputEvent/inputType | InputEvent.inputType} */
+  inputType = "";
+  isComposing = false;
+}
+
+/**
+ * Focus state returned by {@link usePixiFocus}.
+ *
+ * @category hook
+ * @expand
+ */
+export interface PixiFocusControls {
+  /** The focused container, or null */
+  focused: Container | null;
+  /**
+   * Focuses a container in any {@link CanvasView} or {@link PixiTexture}.
+   * @param target - A container with `focusable` set
+   */
+  focus: (target: Container) => void;
+  /** Removes focus from the focused container */
+  blur: () => void;
+}
+
+/** @internal */
+export interface FocusManager {
+  subscribe: (callback: () => void) => () => void;
+  /** The focused container */
+  getSnapshot: () => Container | null;
+  /**
+   * Registers the root container of a canvas view or Pixi texture.
+   * Nested roots come after flat ones in tab order.
+   */
+  addRoot: (root: RefObject<Container>, nested: boolean) => () => void;
+  /** Attaches the hidden element that receives DOM focus and keyboard input */
+  connect: (proxy: HTMLTextAreaElement) => () => void;
+  /**
+   * Keeps the proxy out of the tab order and accessibility tree until a
+   * focusable container exists. Ticker listener, the containers are only
+   * searched again after roots change or before Tab moves focus.
+   */
+  update: () => void;
+  /**
+   * Registers a DOM element that receives DOM focus and keyboard input
+   * instead of the proxy while a container is focused, e.g. for IME.
+   */
+  addInput: (target: Container, element: HTMLElement) => () => void;
+  /** Whether a container has a registered input element */
+  hasInput: (target: Container) => boolean;
+  focus: (target: Container | null) => void;
+  /**
+   * Focuses the deepest focusable container of a pick path, or blurs.
+   * @returns Whether a container took focus
+   */
+  focusPath: (path: PickHit[]) => boolean;
+  /**
+   * Moves focus in tab order.
+   * @returns False when focus moved past the last or first container
+   */
+  focusNext: (direction: 1 | -1) => boolean;
+}
+
+/**
+ * Finds the focusable container at or above a target, within a root.
+ * @internal
+ */
+export function getFocusableAncestor(target: Container, root: Container) {
+  let current: Container | null = target;
+  while (current) {
+    if (current.focusable) {
+      return current;
+    }
+    if (current === root) {
+      return null;
+    }
+    current = current.parent;
+  }
+  return null;
+}
+
+/** Name of the proxy when the focused container has none */
+const PROXY_LABEL = "Canvas";
+
+function hasTabStop(container: Container): boolean {
+  if (!container.visible) {
+    return false;
+  }
+  if (container.focusable && (container.tabIndex ?? 0) >= 0) {
+    return true;
+  }
+  return container.children.some(hasTabStop);
+}
+
+function getTabOrder(root: Container) {
+  const focusables: Container[] = [];
+  const visit = (container: Container) => {
+    if (!container.visible) {
+      return;
+    }
+    if (container.focusable && (container.tabIndex ?? 0) >= 0) {
+      focusables.push(container);
+    }
+    container.children.forEach(visit);
+  };
+  visit(root);
+  // Positive tab indices first, like the DOM; the sort is stable
+  return focusables.sort((a, b) => {
+    const aIndex = a.tabIndex || Infinity;
+    const bIndex = b.tabIndex || Infinity;
+    return aIndex === bIndex ? 0 : aIndex < bIndex ? -1 : 1;
+  });
+}
+
+/**
+ * Creates the focus manager for a {@link RenderContext}.
+ *
+ * DOM focus stays on a hidden proxy element while a Pixi container is
+ * focused, so keyboard and input events can be forwarded to it as federated
+ * events through an {@link https://pixijs.download/release/docs/events.EventBoundary.html | EventBoundary}
+ * of its root.
+ *
+ * @internal
+ * @returns The focus manager
+ */
+export function createFocusManager(): FocusManager {
+  const subscribers = new Set<() => void>();
+  const roots = new Map<RefObject<Container>, boolean>();
+  let focused: Container | null = null;
+  let proxy: HTMLTextAreaElement | null = null;
+  const inputs = new Map<Container, HTMLElement>();
+  let hasTabStops = false;
+  let isTabStopStale = true;
+
+  function updateProxy() {
+    if (!proxy) {
+      return;
+    }
+    if (isTabStopStale) {
+      isTabStopStale = false;
+      hasTabStops = [...roots.keys()].some(
+        (root) => root.current && hasTabStop(root.current),
+      );
+    }
+    const isTabStop = !!focused || hasTabStops;
+    const tabIndex = isTabStop ? 0 : -1;
+    if (proxy.tabIndex !== tabIndex) {
+      proxy.tabIndex = tabIndex;
+    }
+    if (!isTabStop) {
+      proxy.setAttribute("aria-hidden", "true");
+      proxy.removeAttribute("aria-label");
+      return;
+    }
+    proxy.removeAttribute("aria-hidden");
+    const label =
+      (focused && (focused.accessibleTitle ?? focused.label)) || PROXY_LABEL;
+    if (proxy.getAttribute("aria-label") !== label) {
+      proxy.setAttribute("aria-label", label);
+    }
+  }
+
+  function isFocusElement(element: EventTarget | null) {
+    return (
+      !!element &&
+      (element === proxy ||
+        [...inputs.values()].some((input) => input === element))
+    );
+  }
+
+  function getRoot(target: Container) {
+    let current: Container | null = target;
+    while (current) {
+      for (const root of roots.keys()) {
+        if (root.current === current) {
+          return current;
+        }
+      }
+      current = current.parent;
+    }
+    return null;
+  }
+
+  function dispatch<T extends FederatedEvent>(
+    event: T,
+    type: string,
+    nativeEvent: T["nativeEvent"],
+    bubbles: boolean,
+  ) {
+    const target = focused;
+    const root = target && getRoot(target);
+    if (!target || !root) {
+      return event;
+    }
+    event.type = type;
+    event.target = target;
+    event.nativeEvent = nativeEvent;
+    event.timeStamp = performance.now();
+    event.bubbles = bubbles;
+    if (bubbles) {
+      event.manager.dispatchEvent(event, type);
+    } else if (target.isInteractive()) {
+      event.eventPhase = event.AT_TARGET;
+      event.currentTarget = target;
+      target.emit(type as keyof Container, event);
+    }
+    return event;
+  }
+
+  function setFocused(target: Container | null) {
+    if (target === focused) {
+      return;
+    }
+    const previous = focused;
+    if (previous) {
+      const root = getRoot(previous);
+      if (root) {
+        const boundary = new EventBoundary(root);
+        dispatch(
+          new FederatedEvent(boundary),
+          "blur",
+          new FocusEvent("blur"),
+          false,
+        );
+        dispatch(
+          new FederatedEvent(boundary),
+          "focusout",
+          new FocusEvent("focusout"),
+          true,
+        );
+      }
+    }
+    focused = target;
+    if (target) {
+      const root = getRoot(target);
+      if (root) {
+        const boundary = new EventBoundary(root);
+        dispatch(
+          new FederatedEvent(boundary),
+          "focus",
+          new FocusEvent("focus"),
+          false,
+        );
+        dispatch(
+          new FederatedEvent(boundary),
+          "focusin",
+          new FocusEvent("focusin"),
+          true,
+        );
+      }
+      const element = inputs.get(target) ?? proxy;
+      if (element && document.activeElement !== element) {
+        element.focus({ preventScroll: true });
+      }
+    }
+    updateProxy();
+    subscribers.forEach((callback) => callback());
+  }
+
+  function getFocusables() {
+    return [...roots]
+      .sort(([, aNested], [, bNested]) => Number(aNested) - Number(bNested))
+      .flatMap(([root]) => (root.current ? getTabOrder(root.current) : []));
+  }
+
+  function focusNext(direction: 1 | -1) {
+    const focusables = getFocusables();
+    const index = focused ? focusables.indexOf(focused) : -1;
+    const next =
+      index === -1 && direction === -1
+        ? focusables[focusables.length - 1]
+        : focusables[index + direction];
+    setFocused(next ?? null);
+    return !!next;
+  }
+
+  function createKeyboardEvent(nativeEvent: KeyboardEvent) {
+    const root = focused && getRoot(focused);
+    const event = new FederatedKeyboardEvent(
+      new EventBoundary(root ?? undefined),
+    );
+    event.key = nativeEvent.key;
+    event.code = nativeEvent.code;
+    event.altKey = nativeEvent.altKey;
+    event.ctrlKey = nativeEvent.ctrlKey;
+    event.metaKey = nativeEvent.metaKey;
+    event.shiftKey = nativeEvent.shiftKey;
+    event.repeat = nativeEvent.repeat;
+    event.isComposing = nativeEvent.isComposing;
+    return event;
+  }
+
+  /** Forwards keyboard input of the proxy or a registered input element */
+  function listen(element: HTMLElement) {
+    const onKey = (nativeEvent: KeyboardEvent) => {
+      if (!focused) {
+        return;
+      }
+      const event = dispatch(
+        createKeyboardEvent(nativeEvent),
+        nativeEvent.type,
+        nativeEvent,
+        true,
+      );
+      if (
+        nativeEvent.type === "keydown" &&
+        nativeEvent.key === "Tab" &&
+        !event.defaultPrevented &&
+        !nativeEvent.altKey &&
+        !nativeEvent.ctrlKey &&
+        !nativeEvent.metaKey &&
+        focusNext(nativeEvent.shiftKey ? -1 : 1)
+      ) {
+        nativeEvent.preventDefault();
+      }
+    };
+    const onInput = (nativeEvent: Event) => {
+      const inputEvent = nativeEvent as InputEvent;
+      const root = focused && getRoot(focused);
+      const event = new FederatedInputEvent(
+        new EventBoundary(root ?? undefined),
+      );
+      event.text = inputEvent.data;
+      event.inputType = inputEvent.inputType;
+      event.isComposing = inputEvent.isComposing;
+      dispatch(event, "input", inputEvent, true);
+      if (proxy && element === proxy) {
+        proxy.value = "";
+      }
+    };
+    const onBlur = (nativeEvent: FocusEvent) => {
+      // Focus moving between the proxy and input elements stays in Pixi
+      if (!isFocusElement(nativeEvent.relatedTarget)) {
+        setFocused(null);
+      }
+    };
+    element.addEventListener("keydown", onKey);
+    element.addEventListener("keyup", onKey);
+    element.addEventListener("input", onInput);
+    element.addEventListener("blur", onBlur);
+    return () => {
+      element.removeEventListener("keydown", onKey);
+      element.removeEventListener("keyup", onKey);
+      element.removeEventListener("input", onInput);
+      element.removeEventListener("blur", onBlur);
+    };
+  }
+
+  return {
+    subscribe(callback) {
+      subscribers.add(callback);
+      return () => {
+        subscribers.delete(callback);
+      };
+    },
+    getSnapshot() {
+      return focused;
+    },
+    addRoot(root, nested) {
+      roots.set(root, nested);
+      isTabStopStale = true;
+      return () => {
+        roots.delete(root);
+        isTabStopStale = true;
+        if (focused && !getRoot(focused)) {
+          setFocused(null);
+        }
+      };
+    },
+    connect(element) {
+      proxy = element;
+      isTabStopStale = true;
+      updateProxy();
+      const removeListeners = listen(element);
+      // Containers may have become focusable since the last search
+      const onTab = (nativeEvent: KeyboardEvent) => {
+        if (nativeEvent.key === "Tab") {
+          isTabStopStale = true;
+          updateProxy();
+        }
+      };
+      window.addEventListener("keydown", onTab, true);
+      const onFocus = (nativeEvent: FocusEvent) => {
+        if (focused) {
+          return;
+        }
+        // Tabbing in from the DOM, backwards if the previous element follows
+        const from = nativeEvent.relatedTarget as Node | null;
+        const isBackward =
+          !!from &&
+          !!(
+            element.compareDocumentPosition(from) &
+            Node.DOCUMENT_POSITION_FOLLOWING
+          );
+        focusNext(isBackward ? -1 : 1);
+      };
+      element.addEventListener("focus", onFocus);
+      return () => {
+        removeListeners();
+        element.removeEventListener("focus", onFocus);
+        window.removeEventListener("keydown", onTab, true);
+        proxy = null;
+      };
+    },
+    update: updateProxy,
+    addInput(target, element) {
+      inputs.set(target, element);
+      const removeListeners = listen(element);
+      const onFocus = () => {
+        setFocused(target);
+      };
+      element.addEventListener("focus", onFocus);
+      if (focused === target && document.activeElement !== element) {
+        element.focus({ preventScroll: true });
+      }
+      return () => {
+        removeListeners();
+        element.removeEventListener("focus", onFocus);
+        if (inputs.get(target) === element) {
+          inputs.delete(target);
+        }
+      };
+    },
+    hasInput(target) {
+      return inputs.has(target);
+    },
+    focus(target) {
+      setFocused(target);
+      const active = document.activeElement;
+      if (!target && active instanceof HTMLElement && isFocusElement(active)) {
+        active.blur();
+      }
+    },
+    focusPath(path) {
+      for (let i = path.length - 1; i >= 0; i--) {
+        const hit = path[i];
+        if (hit.type !== "pixi") {
+          continue;
+        }
+        const target = getFocusableAncestor(hit.target, hit.container);
+        if (target) {
+          setFocused(target);
+          return true;
+        }
+      }
+      setFocused(null);
+      return false;
+    },
+    focusNext,
+  };
+}
@@ -0,0 +1,133 @@
+import { type Texture } from "pixi.js";
+import { HalfFloatType, type RenderTarget } from "three";
+import {
+  directionToColor,
+  float,
+  floor,
+  mod,
+  mrt,
+  normalView,
+  output,
+  positionView,
+  uniform,
+  vec4,
+} from "three/tsl";
+
+/**
+ * Extra output of a {@link ThreeScene}, rendered alongside the color.
+ *
+ * - `depth`: distance from the camera plane in world units, red channel,
+ *   half float
+ * - `normal`: view-space normal, each axis mapped from -1..1 to 0..1
+ * - `id`: `Object3D.id` plus one in the red, green and blue bytes, lowest
+ *   byte first, zero where nothing was rendered
+ *
+ * @category component
+ */
+export type GBufferOutput = "depth" | "normal" | "id";
+
+/**
+ * Pixi textures of the {@link GBufferOutput | G-buffer outputs} of a
+ * {@link ThreeScene}, with the same size and orientation as its sprite
+ * texture. Outputs that are not rendered stay empty.
+ *
+ * @category component
+ * @expand
+ * @example
+ * ```tsx
+ * const outputsRef = useRef<GBufferTextures>(null!);
+ * useEffect(() => {
+ *   outlineFilter.resources.uNormalTexture = outputsRef.current.normal.source;
+ * }, []);
+ * return (
+ *   <ThreeScene outputs={["normal", "id"]} outputsRef={outputsRef}>
+ *     <Model />
+ *   </ThreeScene>
+ * );
+ * ```
+ */
+export type GBufferTextures = Record<GBufferOutput, Texture>;
+
+/**
+ * Name of the color output, see {@link mrt}
+ * @internal
+ */
+export const COLOR_OUTPUT = "output";
+
+/**
+ * Creates a node that encodes the id of each rendered object into normalized
+ * RGB bytes, see {@link GBufferOutput}.
+ *
+ * @internal
+ * @returns The color node
+ */
+export function objectIdNode() {
+  const id = uniform(0).onObjectUpdate(({ object }) => (object?.id ?? -1) + 1);
+  return vec4(
+    mod(id, 256),
+    mod(floor(id.div(256)), 256),
+    mod(floor(id.div(65536)), 256),
+    255,
+  ).div(255);
+}
+
+const outputNodes = {
+  depth: () => vec4(positionView.z.negate(), 0, 0, 1),
+  normal: () => vec4(directionToColor(normalView), float(1)),
+  id: objectIdNode,
+};
+
+/**
+ * Creates the MRT node that renders the color and G-buffer outputs.
+ *
+ * @internal
+ * @param outputs - Outputs after the color
+ * @returns The MRT node, null without outputs
+ */
+export function createGBufferMrt(outputs: GBufferOutput[]) {
+  if (!outputs.length) {
+    return null;
+  }
+  return mrt({
+    [COLOR_OUTPUT]: output,
+    ...Object.fromEntries(outputs.map((name) => [name, outputNodes[name]()])),
+  });
+}
+
+/**
+ * Sets the color attachments of a render target to the color followed by
+ * the G-buffer outputs, in order.
+ *
+ * @internal
+ * @param renderTarget - The render target of a scene
+ * @param outputs - Outputs after the color
+ */
+export function setGBufferAttachments(
+  renderTarget: RenderTarget,
+  outputs: GBufferOutput[],
+) {
+  const [color, ...previous] = renderTarget.textures;
+  if (
+    previous.length === outputs.length &&
+    previous.every((texture, i) => texture.name === outputs[i])
+  ) {
+    return;
+  }
+  previous.forEach((texture) => texture.dispose());
+  color.name = COLOR_OUTPUT;
+  renderTarget.textures = [
+    color,
+    ...outputs.map((name) => {
+      const texture = color.clone();
+      texture.name = name;
+      texture.isRenderTargetTexture = true;
+      texture.renderTarget = renderTarget;
+      if (name === "depth") {
+        texture.type = HalfFloatType;
+      }
+      return texture;
+    }),
+  ];
+  // Recreates the attachments on the next render
+  renderTarget.dispose();
+}
@@ -0,0 +1,335 @@
+import { type Container, EventBoundary, FederatedEvent, Point } from "pixi.js";
+import { useEffect, useEffectEvent } from "react";
+
+import { type PixiPickHit } from "./pick";
+
+/** Client pixels a pointer moves before a pan is recognized */
+const PAN_THRESHOLD = 10;
+/** Relative scale change before a pinch is recognized */
+const PINCH_THRESHOLD = 0.1;
+/** Radians of rotation before a rotate is recognized, about 10 degrees */
+const ROTATE_THRESHOLD = 0.17;
+/** Milliseconds a pointer is held still before a long press */
+const LONG_PRESS_DELAY = 500;
+
+/**
+ * Gesture recognized from the pointers pressed in one layer.
+ *
+ * @category hook
+ */
+export type GestureType = "pan" | "pinch" | "rotate";
+
+/**
+ * Federated gesture event, dispatched to the target of the first pointer
+ * pressed in a layer and bubbling to its parents.
+ *
+ * Pointers are grouped by the {@link CanvasView} or {@link PixiTexture} they
+ * were pressed in, so two fingers on two textured meshes make two gestures.
+ * Points are in the global coordinates of that layer, texture pixels in a
+ * {@link PixiTexture}, and every value is relative to the gesture start.
+ *
+ * Types are `panstart`, `panmove`, `panend`, `pinchstart`, `pinchmove`,
+ * `pinchend`, `rotatestart`, `rotatemove`, `rotateend` and `longpress`.
+ * Once recognized, each gesture receives every move until all pointers are
+ * released.
+ *
+ * @category hook
+ * @example
+ * ```tsx
+ * const ref = useRef<Sprite>(null!);
+ * useEffect(() => {
+ *   const sprite = ref.current;
+ *   let start = { scale: 1, rotation: 0 };
+ *   sprite.on("pinchstart", () => {
+ *     start = { scale: sprite.scale.x, rotation: sprite.rotation };
+ *   });
+ *   sprite.on("pinchmove", (event: FederatedGestureEvent) => {
+ *     sprite.scale.set(start.scale * event.scale);
+ *     sprite.rotation = start.rotation + event.rotation;
+ *   });
+ * }, []);
+ * ```
+ */
+export class FederatedGestureEvent extends FederatedEvent<PointerEvent> {
+  /** Centroid of the pressed pointers in layer global coordinates */
+  center = new Point();
+  /** Movement of the centroid since the gesture started, in layer global coordinates */
+  translation = new Point();
+  /** Spread of the pointers relative to the gesture start */
+  scale = 1;
+  /** Rotation of the first two pointers since the gesture started, in radians */
+  rotation = 0;
+  /** Number of pressed pointers */
+  pointerCount = 0;
+
+  /**
+   * Maps the centroid to the local coordinates of a container.
+   * @param container - A container in the same layer
+   * @param out - Optional Point to store the result
+   * @returns The local centroid
+   */
+  getLocalCenter(container: Container, out?: Point) {
+    return container.toLocal(this.center, undefined, out);
+  }
+}
+
+/**
+ * Layer that gesture pointers can be pressed in.
+ * @internal
+ */
+export interface GestureLayer {
+  getRoot: () => Container | undefined;
+  /** Maps client coordinates to layer global coordinates, null if outside */
+  mapClientToGlobal: (
+    client: { clientX: number; clientY: number },
+    out: Point,
+  ) => Point | null;
+}
+
+/** @internal */
+export interface GestureRecognizer {
+  /** Registers a layer, returns a function that removes it */
+  addLayer: (layer: GestureLayer) => () => void;
+  /**
+   * Tracks a pressed pointer in the layer of a Pixi hit.
+   * @param event - The pointerdown event
+   * @param hit - The deepest Pixi hit of the pick path
+   */
+  pointerDown: (event: PointerEvent, hit: PixiPickHit) => void;
+  /** Listens for moves and releases of tracked pointers */
+  connect: () => () => void;
+}
+
+interface GesturePointer {
+  downClient: Point;
+  global: Point;
+}
+
+interface GestureGroup {
+  root: Container;
+  target: Container;
+  layer: GestureLayer | undefined;
+  pointers: Map<number, GesturePointer>;
+  /** Transform before the last change of pressed pointers */
+  committed: { scale: number; rotation: number; translation: Point };
+  /** Pointer layout after the last change of pressed pointers */
+  base: { center: Point; distance: number; angle: number };
+  recognized: Set<GestureType>;
+  longPressTimer: ReturnType<typeof setTimeout> | undefined;
+}
+
+function getLayout(pointers: Map<number, GesturePointer>) {
+  const points = [...pointers.values()].map((pointer) => pointer.global);
+  const center = new Point();
+  points.forEach((point) => {
+    center.x += point.x / points.length;
+    center.y += point.y / points.length;
+  });
+  let distance = 0;
+  points.forEach((point) => {
+    distance +=
+      Math.hypot(point.x - center.x, point.y - center.y) / points.length;
+  });
+  const angle =
+    points.length > 1
+      ? Math.atan2(points[1].y - points[0].y, points[1].x - points[0].x)
+      : 0;
+  return { center, distance, angle };
+}
+
+/** Wraps an angle to -PI..PI */
+function wrapAngle(angle: number) {
+  return Math.atan2(Math.sin(angle), Math.cos(angle));
+}
+
+/**
+ * Creates the gesture recognizer for a {@link RenderContext}.
+ *
+ * Canvas views report pointerdown with their pick path, and the pointer
+ * joins the group of the layer it was pressed in. Moves are mapped to that
+ * layer through {@link GestureLayer.mapClientToGlobal}, so a pointer keeps
+ * its layer while the other pointers of the gesture hit other content.
+ *
+ * @internal
+ * @returns The gesture recognizer
+ */
+export function createGestureRecognizer(): GestureRecognizer {
+  const layers = new Set<GestureLayer>();
+  const groups = new Map<Container, GestureGroup>();
+  const pointerGroups = new Map<number, GestureGroup>();
+
+  function getTransform(group: GestureGroup) {
+    const { center, distance, angle } = getLayout(group.pointers);
+    const { committed, base } = group;
+    const isMulti = group.pointers.size > 1 && base.distance > 0;
+    return {
+      center,
+      scale: committed.scale * (isMulti ? distance / base.distance : 1),
+      rotation:
+        committed.rotation + (isMulti ? wrapAngle(angle - base.angle) : 0),
+      translation: new Point(
+        committed.translation.x + center.x - base.center.x,
+        committed.translation.y + center.y - base.center.y,
+      ),
+    };
+  }
+
+  /** Starts a new base layout, keeping the transform so far */
+  function rebase(group: GestureGroup) {
+    const { scale, rotation, translation } = getTransform(group);
+    group.committed = { scale, rotation, translation };
+    group.base = getLayout(group.pointers);
+  }
+
+  function emit(group: GestureGroup, type: string, nativeEvent: PointerEvent) {
+    const boundary = new EventBoundary(group.root);
+    const event = new FederatedGestureEvent(boundary);
+    const { center, scale, rotation, translation } = getTransform(group);
+    event.target = group.target;
+    event.nativeEvent = nativeEvent;
+    event.timeStamp = performance.now();
+    event.center.copyFrom(center);
+    event.translation.copyFrom(translation);
+    event.scale = scale;
+    event.rotation = rotation;
+    event.pointerCount = group.pointers.size;
+    boundary.dispatchEvent(event, type);
+  }
+
+  function cancelLongPress(group: GestureGroup) {
+    clearTimeout(group.longPressTimer);
+    group.longPressTimer = undefined;
+  }
+
+  function onPointerMove(event: PointerEvent) {
+    const group = pointerGroups.get(event.pointerId);
+    const pointer = group?.pointers.get(event.pointerId);
+    if (!group || !pointer) {
+      return;
+    }
+    group.layer?.mapClientToGlobal(event, pointer.global);
+    const moved =
+      Math.hypot(
+        event.clientX - pointer.downClient.x,
+        event.clientY - pointer.downClient.y,
+      ) > PAN_THRESHOLD;
+    if (moved) {
+      cancelLongPress(group);
+    }
+
+    const { scale, rotation } = getTransform(group);
+    const recognize: Record<GestureType, boolean> = {
+      pan: moved,
+      pinch: Math.abs(scale - 1) > PINCH_THRESHOLD,
+      rotate: Math.abs(rotation) > ROTATE_THRESHOLD,
+    };
+    (Object.keys(recognize) as GestureType[]).forEach((type) => {
+      if (group.recognized.has(type)) {
+        emit(group, `${type}move`, event);
+      } else if (recognize[type]) {
+        group.recognized.add(type);
+        emit(group, `${type}start`, event);
+      }
+    });
+  }
+
+  function onPointerUp(event: PointerEvent) {
+    const group = pointerGroups.get(event.pointerId);
+    if (!group) {
+      return;
+    }
+    pointerGroups.delete(event.pointerId);
+    cancelLongPress(group);
+    if (group.pointers.size > 1) {
+      group.pointers.delete(event.pointerId);
+      rebase(group);
+      return;
+    }
+    group.recognized.forEach((type) => {
+      emit(group, `${type}end`, event);
+    });
+    groups.delete(group.root);
+  }
+
+  return {
+    addLayer(layer) {
+      layers.add(layer);
+      return () => {
+        layers.delete(layer);
+      };
+    },
+    pointerDown(event, hit) {
+      if (pointerGroups.has(event.pointerId)) {
+        return;
+      }
+      let group = groups.get(hit.container);
+      if (!group) {
+        group = {
+          root: hit.container,
+          target: hit.target,
+          layer: [...layers].find((layer) => layer.getRoot() === hit.container),
+          pointers: new Map(),
+          committed: { scale: 1, rotation: 0, translation: new Point() },
+          base: { center: new Point(), distance: 0, angle: 0 },
+          recognized: new Set(),
+          longPressTimer: undefined,
+        };
+        groups.set(hit.container, group);
+      } else {
+        cancelLongPress(group);
+      }
+      group.pointers.set(event.pointerId, {
+        downClient: new Point(event.clientX, event.clientY),
+        global: hit.point.clone(),
+      });
+      pointerGroups.set(event.pointerId, group);
+      rebase(group);
+
+      if (group.pointers.size === 1) {
+        const pressed = group;
+        pressed.longPressTimer = setTimeout(() => {
+          pressed.longPressTimer = undefined;
+          emit(pressed, "longpress", event);
+        }, LONG_PRESS_DELAY);
+      }
+    },
+    connect() {
+      window.addEventListener("pointermove", onPointerMove);
+      window.addEventListener("pointerup", onPointerUp);
+      window.addEventListener("pointercancel", onPointerUp);
+      return () => {
+        window.removeEventListener("pointermove", onPointerMove);
+        window.removeEventListener("pointerup", onPointerUp);
+        window.removeEventListener("pointercancel", onPointerUp);
+        groups.forEach(cancelLongPress);
+        groups.clear();
+        pointerGroups.clear();
+      };
+    },
+  };
+}
+
+/**
+ * Registers a Pixi layer with the gesture recognizer of the
+ * {@link RenderContext}.
+ *
+ * @internal
+ * @param gestures - The gesture recognizer
+ * @param layer - The layer root and mapping
+ */
+export function useGestureLayer(
+  gestures: GestureRecognizer,
+  { getRoot, mapClientToGlobal }: GestureLayer,
+) {
+  const onGetRoot = useEffectEvent(getRoot);
+  const onMapClientToGlobal = useEffectEvent(mapClientToGlobal);
+
+  useEffect(
+    () =>
+      gestures.addLayer({
+        getRoot: () => onGetRoot(),
+        mapClientToGlobal: (client, out) => onMapClientToGlobal(client, out),
+      }),
+    [gestures],
+  );
+}
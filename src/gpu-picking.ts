@@ -0,0 +1,245 @@
+import {
+  type Camera,
+  Color,
+  type Intersection,
+  type Object3D,
+  Ray,
+  Raycaster,
+  RenderTarget,
+  type Scene,
+  Vector2,
+} from "three";
+import { mrt } from "three/tsl";
+import { type WebGPURenderer } from "three/webgpu";
+
+import { COLOR_OUTPUT, objectIdNode } from "./g-buffer";
+import { createPixelReadback } from "./pixel-readback";
+import {
+  mapViewportNdcToTexture,
+  renderViewports,
+  type ThreeViewport,
+} from "./three-viewport";
+
+/**
+ * How a {@link ThreeScene} finds the objects under a point.
+ *
+ * - `"raycast"`: raycasts every object on each hit test
+ * - `"gpu"`: reads the object from a low resolution ID buffer rendered after
+ *   the color, falling back to raycasting until a readback is available.
+ *   Results may lag the rendered frame by up to the picking interval.
+ *
+ * @category component
+ */
+export type PickingMode = "raycast" | "gpu";
+
+/** @internal */
+export interface GpuPickerOptions {
+  /** Scene whose objects are picked */
+  scene: Scene;
+  /** Size of the ID buffer relative to the color */
+  scale: number;
+  /** Whether render targets are stored bottom-up */
+  flipY: boolean;
+}
+
+/** @internal */
+export interface GpuPicker {
+  /**
+   * Renders the ID buffer when it was needed since the last render and the
+   * interval passed, then reads it back asynchronously.
+   * @param interval - Minimum milliseconds between ID buffer renders,
+   * readbacks older than twice the interval are not used
+   * @param viewports - Regions rendered from their own cameras
+   */
+  render: (
+    gl: WebGPURenderer,
+    camera: Camera,
+    width: number,
+    height: number,
+    interval: number,
+    viewports?: ThreeViewport[],
+  ) => void;
+  /**
+   * Gets the object at a point of the last readback.
+   * @param ndc - Normalized device coordinates
+   * @returns The object, null where nothing was rendered, undefined if there
+   * is no recent readback and a frame must be rendered
+   */
+  getObject: (ndc: Vector2) => Object3D | null | undefined;
+  /** Whether the ID buffer is rendered from a camera */
+  hasCamera: (camera: Camera) => boolean;
+  /** Releases the ID buffer, it is recreated by the next render */
+  dispose: () => void;
+}
+
+const _clearColor = new Color() as Parameters<
+  WebGPURenderer["getClearColor"]
+>[0];
+const _pixel = [0, 0, 0, 0];
+
+/**
+ * Creates the GPU picker of a {@link ThreeScene} in `"gpu"` picking mode.
+ *
+ * @internal
+ * @param options - Scene, resolution and throttling
+ * @returns The GPU picker
+ */
+export function createGpuPicker({
+  scene,
+  scale,
+  flipY,
+}: GpuPickerOptions): GpuPicker {
+  const renderTarget = new RenderTarget(1, 1, { depthBuffer: true });
+  renderTarget.texture.name = COLOR_OUTPUT;
+  const idMrt = mrt({ [COLOR_OUTPUT]: objectIdNode() });
+  const readback = createPixelReadback(flipY);
+  const objects = new Map<number, Object3D | null>();
+  let cameras: Camera[] = [];
+
+  return {
+    render(gl, camera, width, height, interval, viewports) {
+      if (!readback.isDue(interval)) {
+        return;
+      }
+      const pickWidth = Math.max(1, Math.ceil(width * scale));
+      const pickHeight = Math.max(1, Math.ceil(height * scale));
+      if (
+        renderTarget.width !== pickWidth ||
+        renderTarget.height !== pickHeight
+      ) {
+        renderTarget.setSize(pickWidth, pickHeight);
+      }
+
+      const oldRenderTarget = gl.getRenderTarget();
+      const oldMrt = gl.getMRT();
+      const oldClearAlpha = gl.getClearAlpha();
+      gl.getClearColor(_clearColor);
+      const background = scene.background;
+      scene.background = null;
+      gl.setClearColor(0x000000, 0);
+      gl.setRenderTarget(renderTarget);
+      gl.setMRT(idMrt);
+      cameras = viewports?.length ? viewports.map((x) => x.camera) : [camera];
+      if (viewports?.length) {
+        renderViewports(gl, renderTarget, viewports, (viewportCamera) =>
+          gl.render(scene, viewportCamera),
+        );
+      } else {
+        gl.render(scene, camera);
+      }
+      gl.setMRT(oldMrt);
+      gl.setRenderTarget(oldRenderTarget);
+      gl.setClearColor(_clearColor, oldClearAlpha);
+      scene.background = background;
+
+      // Objects may have been removed since the last readback
+      objects.clear();
+      readback.read(gl, renderTarget);
+    },
+    getObject(ndc) {
+      if (!readback.getPixel(ndc, _pixel)) {
+        return readback.isStale() ? undefined : null;
+      }
+      const [r, g, b] = _pixel.map((channel) => Math.round(channel * 255));
+      const id = r + g * 256 + b * 65536;
+      if (id === 0) {
+        return null;
+      }
+      let object = objects.get(id);
+      if (object === undefined) {
+        object = scene.getObjectById(id - 1) ?? null;
+        objects.set(id, object);
+      }
+      return object;
+    },
+    hasCamera(camera) {
+      return cameras.includes(camera);
+    },
+    dispose() {
+      readback.clear();
+      renderTarget.dispose();
+    },
+  };
+}
+
+function isDescendant(object: Object3D, ancestor: Object3D) {
+  for (let x: Object3D | null = object; x; x = x.parent) {
+    if (x === ancestor) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Answers raycasts of a scene raycaster from a GPU picker while its ray
+ * comes from a point of a camera the ID buffer is rendered from, so React
+ * Three Fiber only raycasts the object under the pointer. Other rays, e.g.
+ * of virtual pointers or {@link ThreeSceneView}s, are raycast as usual.
+ *
+ * @internal
+ * @param raycaster - The raycaster of the scene state
+ * @param picker - The GPU picker of the scene
+ * @param getViewports - Gets the viewports of the scene
+ * @returns A function that restores the raycaster
+ */
+export function attachGpuPicker(
+  raycaster: Raycaster,
+  picker: GpuPicker,
+  getViewports: () => ThreeViewport[] | undefined,
+) {
+  const ndc = new Vector2();
+  const pickedRay = new Ray();
+  let hasPickedRay = false;
+
+  /** Gets the picked object, undefined if the ray is not from a camera point */
+  function getPickedObject() {
+    if (!hasPickedRay || !raycaster.ray.equals(pickedRay)) {
+      return undefined;
+    }
+    return picker.getObject(ndc);
+  }
+
+  raycaster.setFromCamera = (coords, camera) => {
+    Raycaster.prototype.setFromCamera.call(raycaster, coords, camera);
+    mapViewportNdcToTexture(getViewports(), camera, coords, ndc);
+    pickedRay.copy(raycaster.ray);
+    hasPickedRay = picker.hasCamera(camera);
+  };
+
+  raycaster.intersectObject = <T extends Object3D>(
+    object: Object3D,
+    recursive?: boolean,
+    intersects?: Intersection<T>[],
+  ) => {
+    const picked = getPickedObject();
+    if (picked === null) {
+      return intersects ?? [];
+    }
+    if (picked && isDescendant(picked, object)) {
+      const result = Raycaster.prototype.intersectObject.call(
+        raycaster,
+        picked,
+        false,
+        intersects,
+      ) as Intersection<T>[];
+      if (result.length) {
+        return result;
+      }
+    } else if (picked) {
+      return intersects ?? [];
+    }
+    return Raycaster.prototype.intersectObject.call(
+      raycaster,
+      object,
+      recursive,
+      intersects,
+    ) as Intersection<T>[];
+  };
+
+  return () => {
+    // Restores the prototype methods
+    Reflect.deleteProperty(raycaster, "setFromCamera");
+    Reflect.deleteProperty(raycaster, "intersectObject");
+  };
+}
@@ -1,19 +1,44 @@
 import "./styles.css";
 
+export * from "./accessibility-tree";
 export * from "./bijections";
 export * from "./canvas-tree-context";
 export * from "./canvas-view";
 export * from "./canvas-view-context";
+export * from "./dom-anchor";
+export * from "./dom-surface";
+export * from "./dom-surface-events";
+export * from "./drag-events";
+export * from "./feedback-texture-context";
+export * from "./focus-manager";
+export * from "./g-buffer";
+export * from "./gestures";
+export * from "./gpu-picking";
+export * from "./inject-pointer";
+export * from "./input-recorder";
+export * from "./pick";
+export * from "./pixi-drag";
 export * from "./pixi-synthetic-event-system";
+export * from "./pixi-text-input";
 export * from "./pixi-texture";
 export * from "./pixi-texture-context";
+export * from "./render-backend";
+export * from "./render-clock";
 export * from "./render-context";
 export * from "./render-context-hooks";
+export * from "./render-graph";
+export * from "./three-depth-filter";
 export * from "./three-fiber";
 export * from "./three-portal-content";
 export * from "./three-render-texture";
 export * from "./three-root";
 export * from "./three-scene";
 export * from "./three-scene-context";
+export * from "./three-scene-view";
+export * from "./three-viewport";
 export * from "./use-bridge";
+export * from "./use-cursor";
+export * from "./use-offline-render";
+export * from "./use-render-node";
 export * from "./use-three-render-target";
+export * from "./virtual-pointer";
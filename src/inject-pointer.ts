@@ -0,0 +1,215 @@
+import { Point } from "pixi.js";
+import { type Mesh, type Vector2, type Vector3 } from "three";
+
+import { traceUvToThree } from "./bijections";
+import { useCanvasView } from "./canvas-view-context";
+import { useThreeSceneContextOptional } from "./three-scene-context";
+
+/**
+ * Event types that {@link useInjectPointer} can send.
+ *
+ * @category hook
+ */
+export type InjectPointerType =
+  | "pointerdown"
+  | "pointermove"
+  | "pointerup"
+  | "pointercancel"
+  | "pointerover"
+  | "pointerout"
+  | "pointerleave"
+  | "click"
+  | "dblclick"
+  | "contextmenu";
+
+/**
+ * Synthetic pointer event, see {@link useInjectPointer}.
+ *
+ * @category hook
+ * @expand
+ */
+export interface InjectPointerInit {
+  /** Event type */
+  type: InjectPointerType;
+  /** DOM client x coordinate */
+  clientX: number;
+  /** DOM client y coordinate */
+  clientY: number;
+  /** Pointer id, defaults to 1 like the mouse */
+  pointerId?: number;
+  /** Pointer type, defaults to "mouse" */
+  pointerType?: string;
+  /** Pressed buttons bitmask, defaults to 1 for pointerdown and 0 otherwise */
+  buttons?: number;
+  /** Changed button, defaults to 0 for presses and clicks and -1 for moves */
+  button?: number;
+}
+
+/**
+ * {@link InjectPointerInit} without client coordinates, for the world and UV
+ * variants.
+ *
+ * @category hook
+ */
+export type InjectPointerOptions = Omit<
+  InjectPointerInit,
+  "clientX" | "clientY"
+>;
+
+/**
+ * Functions returned by {@link useInjectPointer}.
+ *
+ * @category hook
+ * @expand
+ */
+export interface InjectPointerControls {
+  /**
+   * Sends a pointer event at DOM client coordinates.
+   * @param init - Event type, coordinates and pointer
+   * @returns False if a handler prevented the default action
+   */
+  injectPointer: (init: InjectPointerInit) => boolean;
+  /**
+   * Sends a pointer event at a world position of the nearest Three scene.
+   * @param position - Three.js Vector3 in world coordinates
+   * @param options - Event type and pointer
+   * @returns False if the position is not visible or a handler prevented the default action
+   * @throws If called outside of a {@link ThreeScene} or {@link ThreeRenderTexture}
+   */
+  injectPointerAtWorld: (
+    position: Vector3,
+    options: InjectPointerOptions,
+  ) => boolean;
+  /**
+   * Sends a pointer event at UV coordinates on a mesh of the nearest Three scene.
+   * @param mesh - The Mesh whose surface the UV is on
+   * @param uv - UV coordinates (0-1)
+   * @param options - Event type and pointer
+   * @returns False if the UV is not on the mesh or a handler prevented the default action
+   * @throws If called outside of a {@link ThreeScene} or {@link ThreeRenderTexture}
+   */
+  injectPointerAtUv: (
+    mesh: Mesh,
+    uv: Vector2,
+    options: InjectPointerOptions,
+  ) => boolean;
+}
+
+const PRESS_TYPES = new Set<InjectPointerType>([
+  "pointerdown",
+  "pointerup",
+  "click",
+  "dblclick",
+  "contextmenu",
+]);
+
+/**
+ * Dispatches a synthetic pointer event on a canvas, routed through the same
+ * React, Pixi and React Three Fiber listeners as real input.
+ *
+ * @internal
+ * @param canvas - The canvas element of a {@link CanvasView}
+ * @param init - Event type, coordinates and pointer
+ * @returns False if a handler prevented the default action
+ */
+export function dispatchPointer(
+  canvas: HTMLCanvasElement,
+  {
+    type,
+    clientX,
+    clientY,
+    pointerId = 1,
+    pointerType = "mouse",
+    buttons = type === "pointerdown" ? 1 : 0,
+    button = PRESS_TYPES.has(type) ? 0 : -1,
+  }: InjectPointerInit,
+) {
+  const event = new PointerEvent(type, {
+    clientX,
+    clientY,
+    screenX: clientX,
+    screenY: clientY,
+    pointerId,
+    pointerType,
+    isPrimary: true,
+    buttons,
+    button,
+    bubbles: type !== "pointerleave",
+    cancelable: true,
+    composed: true,
+    view: window,
+  });
+  return canvas.dispatchEvent(event);
+}
+
+/**
+ * Hook for sending synthetic pointer events to the nearest
+ * {@link CanvasView}, e.g. for scripted onboarding tours or interaction tests.
+ *
+ * Events go through the same routing as real input, including nested
+ * {@link ThreeScene}, {@link PixiTexture} and {@link ThreeRenderTexture}
+ * layers. The world and UV variants map to client coordinates first, so
+ * content in front of the target receives the event, as it would a click.
+ *
+ * @category hook
+ * @returns The inject functions
+ * @throws If called outside of a {@link CanvasView}
+ * @example
+ * ```tsx
+ * const { injectPointerAtUv } = useInjectPointer();
+ * const uv = new Vector2(0.5, 0.5);
+ * injectPointerAtUv(screen, uv, { type: "pointerdown" });
+ * injectPointerAtUv(screen, uv, { type: "pointerup" });
+ * injectPointerAtUv(screen, uv, { type: "click" });
+ * ```
+ */
+export function useInjectPointer(): InjectPointerControls {
+  const { canvasRef } = useCanvasView();
+  const threeSceneContext = useThreeSceneContextOptional();
+
+  function injectPointer(init: InjectPointerInit) {
+    return dispatchPointer(canvasRef.current, init);
+  }
+
+  function getThreeSceneContext(name: string) {
+    if (threeSceneContext === null) {
+      throw Error(
+        `${name}() must be called within a <ThreeScene /> or <ThreeRenderTexture />`,
+      );
+    }
+    return threeSceneContext;
+  }
+
+  const _client = new Point();
+
+  function injectPointerAtWorld(
+    position: Vector3,
+    options: InjectPointerOptions,
+  ) {
+    const { mapThreeToClient } = getThreeSceneContext("injectPointerAtWorld");
+    const [client] = mapThreeToClient(position, _client);
+    if (!client) {
+      return false;
+    }
+    return injectPointer({
+      ...options,
+      clientX: client.x,
+      clientY: client.y,
+    });
+  }
+
+  function injectPointerAtUv(
+    mesh: Mesh,
+    uv: Vector2,
+    options: InjectPointerOptions,
+  ) {
+    getThreeSceneContext("injectPointerAtUv");
+    const [trace] = traceUvToThree(uv, mesh);
+    if (!trace) {
+      return false;
+    }
+    return injectPointerAtWorld(trace.position, options);
+  }
+
+  return { injectPointer, injectPointerAtWorld, injectPointerAtUv };
+}
@@ -0,0 +1,374 @@
+import { Point, type Ticker } from "pixi.js";
+
+import { dispatchPointer, type InjectPointerType } from "./inject-pointer";
+import { type PickHit } from "./pick";
+import { type RenderClock } from "./render-clock";
+
+/** DOM events that reach a canvas view */
+const RECORDED_TYPES = [
+  "pointerdown",
+  "pointermove",
+  "pointerup",
+  "pointercancel",
+  "pointerover",
+  "pointerout",
+  "pointerleave",
+  "click",
+  "dblclick",
+  "contextmenu",
+  "wheel",
+] as const;
+
+/**
+ * Hit in one layer of an {@link InputTraceEvent}, serialized from
+ * {@link PickHit}.
+ *
+ * @category hook
+ */
+export type InputTraceLayer =
+  | {
+      type: "pixi";
+      /** Label of the Pixi target */
+      target: string;
+      /** Point in the global coordinates of the layer */
+      point: [x: number, y: number];
+    }
+  | {
+      type: "three";
+      /** Name of the intersected object, or its type if unnamed */
+      object: string;
+      /** NDC coordinates of the ray */
+      ndc: [x: number, y: number];
+      /** UV of the intersection, if the geometry has one */
+      uv?: [u: number, v: number];
+      /** Distance from the camera */
+      distance: number;
+    };
+
+/**
+ * DOM event recorded by {@link useInputRecorder}.
+ *
+ * @category hook
+ * @expand
+ */
+export interface InputTraceEvent {
+  /** Milliseconds since the recording started */
+  time: number;
+  /** Render clock time in seconds, see {@link useRenderClock} */
+  clockTime: number;
+  /** Id of the {@link CanvasView} that received the event */
+  view: string;
+  /** DOM event type */
+  type: (typeof RECORDED_TYPES)[number];
+  /** Viewport coordinates, replayed relative to the current canvas position */
+  viewport: [x: number, y: number];
+  /** DOM client coordinates at recording time */
+  client: [x: number, y: number];
+  pointerId: number;
+  pointerType: string;
+  buttons: number;
+  button: number;
+  /** Wheel deltas in units of `deltaMode`, for wheel events */
+  delta?: [x: number, y: number];
+  /**
+   * See {@link https://developer.mozilla.org/en-US/docs/Web/API/WheelEvent/deltaMode | WheelEvent.deltaMode},
+   * for wheel events, pixels if missing
+   */
+  deltaMode?: number;
+  /** Routing result in each layer, outermost first */
+  layers: InputTraceLayer[];
+}
+
+/**
+ * JSON serializable input recording of every {@link CanvasView} in a
+ * {@link RenderContext}. See {@link useInputRecorder}.
+ *
+ * @category hook
+ * @expand
+ */
+export interface InputTrace {
+  /** Format version, currently 1 */
+  version: 1;
+  events: InputTraceEvent[];
+}
+
+/**
+ * See {@link InputRecorderControls.replay}.
+ *
+ * @category hook
+ * @expand
+ */
+export interface InputReplayOptions {
+  /**
+   * Playback rate of the recorded timing, defaults to 1.
+   * Infinity dispatches every event synchronously.
+   */
+  speed?: number;
+  /** Signal to abort the replay */
+  signal?: AbortSignal;
+}
+
+/**
+ * Controls returned by {@link useInputRecorder}.
+ *
+ * @category hook
+ * @expand
+ */
+export interface InputRecorderControls {
+  /** Whether events are being recorded */
+  recording: boolean;
+  /** Starts a new recording */
+  start: () => void;
+  /**
+   * Stops recording.
+   * @returns The recorded trace
+   */
+  stop: () => InputTrace;
+  /**
+   * Dispatches the events of a trace through the same routing as real input.
+   * The render clock is paused and each event is dispatched after a frame at
+   * its recorded clock time, so animations match the recording.
+   * @param trace - A recorded trace
+   * @param options - Playback options
+   * @returns The trace with the routing result of the replay, for comparison
+   * @throws If a canvas view of the trace is not mounted
+   */
+  replay: (
+    trace: InputTrace,
+    options?: InputReplayOptions,
+  ) => Promise<InputTrace>;
+}
+
+/** @internal */
+export interface InputRecorderView {
+  /** Id of the canvas view, see {@link CanvasViewProps.id} */
+  id: string;
+  canvas: HTMLCanvasElement;
+  mapViewportToClient: (viewport: Point, out?: Point) => Point;
+  mapClientToViewport: (
+    client: Point | { clientX: number; clientY: number },
+    out?: Point,
+  ) => Point;
+  pickViewport: (viewport: Point) => PickHit[];
+}
+
+/** @internal */
+export interface InputRecorder {
+  subscribe: (callback: () => void) => () => void;
+  getSnapshot: () => boolean;
+  /** Registers a canvas view, returns a function that removes it */
+  addView: (view: InputRecorderView) => () => void;
+  /** Sets the ticker that renders frames at the clock time of replayed events */
+  setTicker: (ticker: Ticker | null) => void;
+  start: () => void;
+  stop: () => InputTrace;
+  replay: (
+    trace: InputTrace,
+    options?: InputReplayOptions,
+  ) => Promise<InputTrace>;
+}
+
+/**
+ * Serializes a pick path to trace layers.
+ * @internal
+ */
+export function serializePickPath(path: PickHit[]): InputTraceLayer[] {
+  return path.map((hit) => {
+    if (hit.type === "pixi") {
+      return {
+        type: "pixi",
+        target: hit.target.label,
+        point: [hit.point.x, hit.point.y],
+      };
+    }
+    const { object, uv, distance } = hit.intersection;
+    return {
+      type: "three",
+      object: object.name || object.type,
+      ndc: [hit.ndc.x, hit.ndc.y],
+      uv: uv && [uv.x, uv.y],
+      distance,
+    };
+  });
+}
+
+/**
+ * Creates the input recorder for a {@link RenderContext}.
+ *
+ * Canvas views register with {@link InputRecorder.addView}. While recording,
+ * a capture listener on each canvas stores events before any handler runs,
+ * together with the {@link CanvasViewContextValue.pickViewport} path that
+ * pointer routing follows.
+ *
+ * @internal
+ * @param clock - The render clock, for timestamps and replays
+ * @returns The input recorder
+ */
+export function createInputRecorder(clock: RenderClock): InputRecorder {
+  const subscribers = new Set<() => void>();
+  const views = new Set<InputRecorderView>();
+  const listeners = new Map<InputRecorderView, () => void>();
+  let events: InputTraceEvent[] | null = null;
+  let startTime = 0;
+  let ticker: Ticker | null = null;
+
+  function setRecording(next: InputTraceEvent[] | null) {
+    events = next;
+    subscribers.forEach((callback) => callback());
+  }
+
+  function listen(view: InputRecorderView) {
+    const _viewport = new Point();
+    const onEvent = (event: Event) => {
+      const pointerEvent = event as PointerEvent;
+      view.mapClientToViewport(pointerEvent, _viewport);
+      events?.push({
+        time: performance.now() - startTime,
+        clockTime: clock.getTime() * 0.001,
+        view: view.id,
+        type: event.type as InputTraceEvent["type"],
+        viewport: [_viewport.x, _viewport.y],
+        client: [pointerEvent.clientX, pointerEvent.clientY],
+        // Mouse events such as click have no pointer id
+        pointerId: pointerEvent.pointerId ?? 1,
+        pointerType: pointerEvent.pointerType ?? "mouse",
+        buttons: pointerEvent.buttons,
+        button: pointerEvent.button,
+        delta:
+          event instanceof WheelEvent
+            ? [event.deltaX, event.deltaY]
+            : undefined,
+        // Read after deltaX/Y for Firefox compatibility
+        deltaMode: event instanceof WheelEvent ? event.deltaMode : undefined,
+        layers: serializePickPath(view.pickViewport(_viewport)),
+      });
+    };
+    RECORDED_TYPES.forEach((type) => {
+      view.canvas.addEventListener(type, onEvent, { capture: true });
+    });
+    listeners.set(view, () => {
+      RECORDED_TYPES.forEach((type) => {
+        view.canvas.removeEventListener(type, onEvent, { capture: true });
+      });
+    });
+  }
+
+  function unlisten(view: InputRecorderView) {
+    listeners.get(view)?.();
+    listeners.delete(view);
+  }
+
+  function dispatch(
+    view: InputRecorderView,
+    event: InputTraceEvent,
+  ): InputTraceEvent {
+    const _viewport = new Point(...event.viewport);
+    const client = view.mapViewportToClient(_viewport);
+    const layers = serializePickPath(view.pickViewport(_viewport));
+    if (event.type === "wheel") {
+      view.canvas.dispatchEvent(
+        new WheelEvent("wheel", {
+          clientX: client.x,
+          clientY: client.y,
+          deltaX: event.delta?.[0],
+          deltaY: event.delta?.[1],
+          deltaMode: event.deltaMode,
+          buttons: event.buttons,
+          bubbles: true,
+          cancelable: true,
+          composed: true,
+          view: window,
+        }),
+      );
+    } else {
+      dispatchPointer(view.canvas, {
+        type: event.type as InjectPointerType,
+        clientX: client.x,
+        clientY: client.y,
+        pointerId: event.pointerId,
+        pointerType: event.pointerType,
+        buttons: event.buttons,
+        button: event.button,
+      });
+    }
+    return { ...event, client: [client.x, client.y], layers };
+  }
+
+  return {
+    subscribe(callback) {
+      subscribers.add(callback);
+      return () => {
+        subscribers.delete(callback);
+      };
+    },
+    getSnapshot() {
+      return events !== null;
+    },
+    addView(view) {
+      views.add(view);
+      if (events) {
+        listen(view);
+      }
+      return () => {
+        unlisten(view);
+        views.delete(view);
+      };
+    },
+    setTicker(next) {
+      ticker = next;
+    },
+    start() {
+      views.forEach(unlisten);
+      startTime = performance.now();
+      setRecording([]);
+      views.forEach(listen);
+    },
+    stop() {
+      views.forEach(unlisten);
+      const trace: InputTrace = { version: 1, events: events ?? [] };
+      setRecording(null);
+      return trace;
+    },
+    async replay(trace, { speed = 1, signal } = {}) {
+      if (trace.version !== 1) {
+        throw Error(`replay() does not support trace version ${trace.version}`);
+      }
+      const replayed: InputTraceEvent[] = [];
+      const replayStart = performance.now();
+      const wasPaused = clock.getSnapshot().paused;
+      let clockTime: number | null = null;
+      clock.pause();
+      try {
+        for (const event of trace.events) {
+          const view = [...views].find((view) => view.id === event.view);
+          if (!view) {
+            throw Error(
+              `replay() requires a mounted <CanvasView /> "${event.view}"`,
+            );
+          }
+          if (speed !== Infinity) {
+            const wait = replayStart + event.time / speed - performance.now();
+            if (wait > 0) {
+              await new Promise((resolve) => setTimeout(resolve, wait));
+            }
+          }
+          signal?.throwIfAborted();
+          // Renders the frame the event was recorded on
+          if (clockTime === null) {
+            clock.seek(event.clockTime);
+          } else {
+            clock.step(event.clockTime - clockTime);
+          }
+          clockTime = event.clockTime;
+          ticker?.update();
+          replayed.push(dispatch(view, event));
+        }
+      } finally {
+        if (!wasPaused) {
+          clock.resume();
+        }
+      }
+      return { version: 1, events: replayed };
+    },
+  };
+}
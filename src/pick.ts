@@ -0,0 +1,159 @@
+import { type Container, type Point } from "pixi.js";
+import { useEffect, useEffectEvent } from "react";
+import { type Intersection, type Vector2 } from "three";
+
+import { useCanvasView } from "./canvas-view-context";
+
+/**
+ * Pixi layer of a pick path, the root of a {@link CanvasView} or a
+ * {@link PixiTexture}.
+ *
+ * @category hook
+ * @expand
+ */
+export interface PixiPickHit {
+  type: "pixi";
+  /** Root container of the layer */
+  container: Container;
+  /** Hit target inside the container */
+  target: Container;
+  /** Point in the global coordinates of the layer, texture pixels in a {@link PixiTexture} */
+  point: Point;
+}
+
+/**
+ * Three layer of a pick path, a {@link ThreeScene} or a {@link ThreeRenderTexture}.
+ *
+ * @category hook
+ * @expand
+ */
+export interface ThreePickHit {
+  type: "three";
+  /** NDC coordinates of the ray through the layer camera */
+  ndc: Vector2;
+  /** Nearest intersection, with the UV of any nested texture */
+  intersection: Intersection;
+}
+
+/**
+ * Hit in one layer of a pick path. See {@link usePick}.
+ *
+ * @category hook
+ */
+export type PickHit = PixiPickHit | ThreePickHit;
+
+/**
+ * Picking functions of a {@link CanvasView}. See {@link usePick}.
+ *
+ * @category hook
+ * @expand
+ */
+export interface PickControls {
+  /**
+   * Picks the content under DOM client coordinates.
+   * @param client - DOM client coordinates
+   * @returns The hit in each layer, outermost first, empty on a miss
+   */
+  pick: (client: Point | { clientX: number; clientY: number }) => PickHit[];
+  /**
+   * Picks the content under CanvasView viewport coordinates.
+   * @param viewport - Viewport Point coordinates
+   * @returns The hit in each layer, outermost first, empty on a miss
+   */
+  pickViewport: (viewport: Point) => PickHit[];
+}
+
+/**
+ * Nested scene or texture that picking descends into.
+ * @internal
+ */
+export interface PickLayer {
+  /** Hit object in the parent layer that shows this layer, a Pixi Sprite or Three Object3D */
+  getOwner: () => object | undefined;
+  /** Picks this layer from the hit on its owner, null on a miss */
+  pick: (ownerHit: PickHit) => PickHit | null;
+}
+
+/**
+ * Follows a hit through the nested layers owned by each hit object.
+ *
+ * @internal
+ * @param rootHit - Hit in the outermost layer, or null on a miss
+ * @param layers - Nested layers of the canvas view
+ * @returns The hit in each layer, outermost first, ending before a layer
+ * repeats
+ */
+export function pickLayerPath(
+  rootHit: PickHit | null,
+  layers: Set<PickLayer>,
+): PickHit[] {
+  const path: PickHit[] = [];
+  // A layer can show itself, e.g. a view of a scene on a texture in that
+  // scene, so the path ends at the first layer it already passed through
+  const visited = new Set<PickLayer>();
+  let hit = rootHit;
+  while (hit) {
+    path.push(hit);
+    const object = hit.type === "pixi" ? hit.target : hit.intersection.object;
+    const layer = [...layers].find((layer) => layer.getOwner() === object);
+    if (!layer || visited.has(layer)) {
+      break;
+    }
+    visited.add(layer);
+    hit = layer.pick(hit);
+  }
+  return path;
+}
+
+/**
+ * Registers a nested layer with the nearest {@link CanvasView} for picking.
+ *
+ * @internal
+ * @param layer - The layer owner and pick function
+ */
+export function usePickLayer({ getOwner, pick }: PickLayer) {
+  const { pickLayers } = useCanvasView();
+  const onGetOwner = useEffectEvent(getOwner);
+  const onPick = useEffectEvent(pick);
+
+  useEffect(() => {
+    const layer: PickLayer = {
+      getOwner: () => onGetOwner(),
+      pick: (ownerHit) => onPick(ownerHit),
+    };
+    pickLayers.add(layer);
+    return () => {
+      pickLayers.delete(layer);
+    };
+  }, [pickLayers]);
+}
+
+/**
+ * Hook for finding what is under a point through every layer of the nearest
+ * {@link CanvasView}, e.g. for tooltips or custom drag and drop.
+ *
+ * The path starts with the Pixi target in the canvas view, then descends
+ * through each {@link ThreeScene} sprite to its nearest intersection, and
+ * through each {@link PixiTexture} or {@link ThreeRenderTexture} on that
+ * object, the same way pointer events are routed.
+ *
+ * @category hook
+ * @returns The pick functions
+ * @throws If called outside of a {@link CanvasView}
+ * @example
+ * ```tsx
+ * const { pick } = usePick();
+ * useEffect(() => {
+ *   const onClick = (event: MouseEvent) => {
+ *     const path = pick(event);
+ *     console.log(path.at(-1));
+ *   };
+ *   window.addEventListener("click", onClick);
+ *   return () => window.removeEventListener("click", onClick);
+ * }, [pick]);
+ * ```
+ */
+export function usePick(): PickControls {
+  const { pick, pickViewport } = useCanvasView();
+  return { pick, pickViewport };
+}
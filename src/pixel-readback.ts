@@ -0,0 +1,137 @@
+import { DataUtils, type RenderTarget, type Vector2 } from "three";
+import { type WebGPURenderer } from "three/webgpu";
+
+type PixelData = Uint8Array | Uint16Array | Float32Array;
+
+interface ReadbackFrame {
+  data: PixelData;
+  width: number;
+  height: number;
+  /** Elements per row, padded on WebGPU */
+  stride: number;
+  /** Time the readback started */
+  time: number;
+}
+
+/** @internal */
+export interface PixelReadback {
+  /**
+   * Checks whether a pixel was needed since the last readback and the
+   * interval passed.
+   * @param interval - Minimum milliseconds between readbacks, readbacks
+   * older than twice the interval are not used
+   */
+  isDue: (interval: number) => boolean;
+  /**
+   * Reads back a render target asynchronously.
+   * @param gl - The Three renderer
+   * @param renderTarget - The render target, its first texture is read
+   */
+  read: (gl: WebGPURenderer, renderTarget: RenderTarget) => void;
+  /**
+   * Gets a pixel of the last readback, normalized to 0..1 for 8-bit and
+   * half float targets.
+   * @param ndc - Normalized device coordinates
+   * @param out - Array that receives the RGBA channels
+   * @returns False if there is no recent readback or the point is outside
+   */
+  getPixel: (ndc: Vector2, out: number[]) => boolean;
+  /** Whether {@link PixelReadback.getPixel} has no recent readback to use */
+  isStale: () => boolean;
+  /** Drops the last readback and any readback in flight */
+  clear: () => void;
+}
+
+/**
+ * Creates a throttled, asynchronous readback of a render target, so
+ * synchronous hit tests can sample the last rendered frame.
+ *
+ * @internal
+ * @param flipY - Whether render targets are stored bottom-up
+ * @returns The pixel readback
+ */
+export function createPixelReadback(flipY: boolean): PixelReadback {
+  let frame: ReadbackFrame | null = null;
+  let isNeeded = false;
+  let isPending = false;
+  let startTime = -Infinity;
+  let maxAge = 0;
+  // Incremented by clear(), readbacks of an older generation are dropped
+  let generation = 0;
+
+  function isStale() {
+    return !frame || performance.now() - frame.time > maxAge;
+  }
+
+  return {
+    isDue(interval) {
+      maxAge = interval * 2;
+      return (
+        isNeeded && !isPending && performance.now() - startTime >= interval
+      );
+    },
+    read(gl, renderTarget) {
+      const { width, height } = renderTarget;
+      const time = performance.now();
+      const readGeneration = generation;
+      isNeeded = false;
+      isPending = true;
+      startTime = time;
+      gl.readRenderTargetPixelsAsync(renderTarget, 0, 0, width, height)
+        .then((data) => {
+          if (readGeneration !== generation) {
+            return;
+          }
+          isPending = false;
+          const pixels = data as PixelData;
+          frame = {
+            data: pixels,
+            width,
+            height,
+            // WebGPU pads rows to 256 bytes, except the last
+            stride:
+              height > 1
+                ? (pixels.length - width * 4) / (height - 1)
+                : width * 4,
+            time,
+          };
+        })
+        .catch(() => {
+          // E.g. the render target was disposed, the next readback retries
+          if (readGeneration === generation) {
+            isPending = false;
+          }
+        });
+    },
+    getPixel(ndc, out) {
+      isNeeded = true;
+      if (!frame || isStale()) {
+        return false;
+      }
+      const { data, width, height, stride } = frame;
+      const x = Math.floor(((ndc.x + 1) / 2) * width);
+      const top = Math.floor(((1 - ndc.y) / 2) * height);
+      if (x < 0 || x >= width || top < 0 || top >= height) {
+        return false;
+      }
+      const row = flipY ? height - 1 - top : top;
+      const offset = row * stride + x * 4;
+      for (let i = 0; i < 4; i++) {
+        const value = data[offset + i];
+        out[i] =
+          data instanceof Uint8Array
+            ? value / 255
+            : data instanceof Uint16Array
+              ? DataUtils.fromHalfFloat(value)
+              : value;
+      }
+      return true;
+    },
+    isStale,
+    clear() {
+      generation++;
+      frame = null;
+      isPending = false;
+    },
+  };
+}
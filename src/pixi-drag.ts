@@ -0,0 +1,480 @@
+import { useApplication } from "@pixi/react";
+import {
+  type Container,
+  EventBoundary,
+  FederatedEvent,
+  type FederatedPointerEvent,
+  Point,
+  type Renderer,
+} from "pixi.js";
+import { useEffect, useEffectEvent, useSyncExternalStore } from "react";
+
+import { type PickHit, type PixiPickHit } from "./pick";
+import { useRenderContext } from "./render-context-hooks";
+
+/** Opacity of the drag ghost */
+const GHOST_ALPHA = 0.7;
+
+/**
+ * Layer at one end of a Pixi drag, the root of a {@link CanvasView} or a
+ * {@link PixiTexture}.
+ *
+ * @category hook
+ * @expand
+ */
+export interface PixiDragLayer {
+  /** Root container of the layer */
+  container: Container;
+  /** Dragged container in the source layer, hit target in the destination layer */
+  target: Container;
+  /** Pointer in the global coordinates of the layer, texture pixels in a {@link PixiTexture} */
+  global: Point;
+}
+
+/**
+ * Federated event of a Pixi drag started with {@link usePixiDrag}.
+ *
+ * The dragged container receives `pixidragstart`, and `pixidragend` when the
+ * pointer is released or the drag is cancelled. The container under the
+ * pointer, in the innermost layer, receives `pixidragenter`, `pixidragover`,
+ * `pixidragleave` and `pixidrop`. All events bubble, and targets under the
+ * pointer must be interactive.
+ *
+ * @category hook
+ */
+export class FederatedPixiDragEvent extends FederatedEvent<PointerEvent> {
+  /** The dragged container */
+  dragged: Container | null = null;
+  /** Payload passed to `startDrag` */
+  payload: unknown = undefined;
+  /** Layer the drag started in */
+  source: PixiDragLayer | null = null;
+  /** Layer under the pointer, null outside any layer or when cancelled */
+  destination: PixiDragLayer | null = null;
+  /** Pointer in the global coordinates of the layer receiving the event */
+  global = new Point();
+
+  /**
+   * Maps the pointer to the local coordinates of a container.
+   * @param container - A container in the layer receiving the event
+   * @param out - Optional Point to store the result
+   * @returns The local point
+   */
+  getLocalPosition(container: Container, out?: Point) {
+    return container.toLocal(this.global, undefined, out);
+  }
+}
+
+/**
+ * Drag state and controls returned by {@link usePixiDrag}.
+ *
+ * @category hook
+ * @expand
+ */
+export interface PixiDragControls {
+  /** The dragged container, or null */
+  dragged: Container | null;
+  /**
+   * Starts dragging a container with the pointer of a pointerdown event.
+   * @param target - The container to drag
+   * @param event - The pointerdown event
+   * @param payload - Passed to every drag event, e.g. the id of the dragged item
+   */
+  startDrag: (
+    target: Container,
+    event: FederatedPointerEvent,
+    payload?: unknown,
+  ) => void;
+  /** Ends the drag without a drop */
+  cancelDrag: () => void;
+}
+
+/**
+ * Pixi layer that drags can start in.
+ * @internal
+ */
+export interface PixiDragLayerSource {
+  getRoot: () => Container | undefined;
+  /** Maps layer global coordinates to client coordinates, null if not visible */
+  mapGlobalToClient: (global: Point, out: Point) => Point | null;
+}
+
+/**
+ * Canvas that drags can be dropped on.
+ * @internal
+ */
+export interface PixiDragView {
+  getCanvas: () => HTMLCanvasElement | null;
+  pick: (client: { clientX: number; clientY: number }) => PickHit[];
+}
+
+/** @internal */
+export interface PixiDragController {
+  subscribe: (callback: () => void) => () => void;
+  /** The dragged container */
+  getSnapshot: () => Container | null;
+  /** Registers a layer, returns a function that removes it */
+  addLayer: (layer: PixiDragLayerSource) => () => void;
+  /** Registers a canvas view, returns a function that removes it */
+  addView: (view: PixiDragView) => () => void;
+  start: (
+    renderer: Renderer,
+    target: Container,
+    event: FederatedPointerEvent,
+    payload: unknown,
+  ) => void;
+  cancel: () => void;
+  /** Attaches the element that shows the ghost and listens for the pointer */
+  connect: (ghostRoot: HTMLElement) => () => void;
+}
+
+interface PixiDrag {
+  pointerId: number;
+  dragged: Container;
+  payload: unknown;
+  source: PixiDragLayer;
+  over: PixiPickHit | null;
+  ghost: HTMLCanvasElement | null;
+  /** Ghost transform relative to the pointer */
+  ghostMatrix: string;
+}
+
+function isAncestor(ancestor: Container, target: Container) {
+  let current: Container | null = target;
+  while (current) {
+    if (current === ancestor) {
+      return true;
+    }
+    current = current.parent;
+  }
+  return false;
+}
+
+/**
+ * Creates the Pixi drag controller for a {@link RenderContext}.
+ *
+ * The ghost is a snapshot of the dragged container, shown over the page with
+ * the transform it had on screen, so it follows the pointer across canvas
+ * views and textured meshes. The destination is picked under the pointer
+ * like pointer events.
+ *
+ * @internal
+ * @returns The drag controller
+ */
+export function createPixiDragController(): PixiDragController {
+  const subscribers = new Set<() => void>();
+  const layers = new Set<PixiDragLayerSource>();
+  const views = new Set<PixiDragView>();
+  let root: HTMLElement | null = null;
+  let drag: PixiDrag | null = null;
+
+  function notify() {
+    subscribers.forEach((callback) => callback());
+  }
+
+  function emit(
+    target: Container,
+    layerRoot: Container,
+    type: string,
+    global: Point,
+    nativeEvent: PointerEvent,
+    destination: PixiDragLayer | null,
+  ) {
+    if (!drag) {
+      return;
+    }
+    const boundary = new EventBoundary(layerRoot);
+    const event = new FederatedPixiDragEvent(boundary);
+    event.target = target;
+    event.nativeEvent = nativeEvent;
+    event.timeStamp = performance.now();
+    event.dragged = drag.dragged;
+    event.payload = drag.payload;
+    event.source = drag.source;
+    event.destination = destination;
+    event.global.copyFrom(global);
+    boundary.dispatchEvent(event, type);
+  }
+
+  function toLayer(hit: PixiPickHit): PixiDragLayer {
+    return { container: hit.container, target: hit.target, global: hit.point };
+  }
+
+  function emitOver(hit: PixiPickHit, type: string, nativeEvent: PointerEvent) {
+    emit(hit.target, hit.container, type, hit.point, nativeEvent, toLayer(hit));
+  }
+
+  function pickDestination(nativeEvent: PointerEvent) {
+    const element = document.elementFromPoint(
+      nativeEvent.clientX,
+      nativeEvent.clientY,
+    );
+    const view = [...views].find((view) => view.getCanvas() === element);
+    const path = view?.pick(nativeEvent) ?? [];
+    return (
+      path.filter((hit): hit is PixiPickHit => hit.type === "pixi").at(-1) ??
+      null
+    );
+  }
+
+  function createGhost(
+    renderer: Renderer,
+    target: Container,
+    layer: PixiDragLayerSource,
+    client: Point,
+  ) {
+    const bounds = target.getLocalBounds();
+    if (!root || bounds.width <= 0 || bounds.height <= 0) {
+      return null;
+    }
+    // Local corners to client, for the transform the container has on screen
+    const corners = [
+      new Point(bounds.x, bounds.y),
+      new Point(bounds.x + bounds.width, bounds.y),
+      new Point(bounds.x, bounds.y + bounds.height),
+    ].map((corner) =>
+      layer.mapGlobalToClient(target.toGlobal(corner), new Point()),
+    );
+    const [origin, right, down] = corners;
+    if (!origin || !right || !down) {
+      return null;
+    }
+    const a = (right.x - origin.x) / bounds.width;
+    const b = (right.y - origin.y) / bounds.width;
+    const c = (down.x - origin.x) / bounds.height;
+    const d = (down.y - origin.y) / bounds.height;
+    const scale = Math.max(Math.hypot(a, b), Math.hypot(c, d));
+
+    const ghost = renderer.extract.canvas({
+      target,
+      resolution: scale * window.devicePixelRatio,
+      clearColor: [0, 0, 0, 0],
+    }) as HTMLCanvasElement;
+    ghost.style.position = "absolute";
+    ghost.style.left = "0";
+    ghost.style.top = "0";
+    ghost.style.width = `${bounds.width}px`;
+    ghost.style.height = `${bounds.height}px`;
+    ghost.style.transformOrigin = "0 0";
+    ghost.style.opacity = String(GHOST_ALPHA);
+    root.appendChild(ghost);
+    return {
+      ghost,
+      ghostMatrix: `matrix(${a}, ${b}, ${c}, ${d}, ${origin.x - client.x}, ${origin.y - client.y})`,
+    };
+  }
+
+  function moveGhost(client: { clientX: number; clientY: number }) {
+    if (drag?.ghost) {
+      drag.ghost.style.transform = `translate(${client.clientX}px, ${client.clientY}px) ${drag.ghostMatrix}`;
+    }
+  }
+
+  function end(nativeEvent: PointerEvent, isDrop: boolean) {
+    const current = drag;
+    if (!current) {
+      return;
+    }
+    const hit = isDrop ? pickDestination(nativeEvent) : null;
+    if (current.over && current.over.target !== hit?.target) {
+      emitOver(current.over, "pixidragleave", nativeEvent);
+    }
+    if (hit) {
+      emitOver(hit, "pixidrop", nativeEvent);
+    }
+    emit(
+      current.dragged,
+      current.source.container,
+      "pixidragend",
+      current.source.global,
+      nativeEvent,
+      hit && toLayer(hit),
+    );
+    current.ghost?.remove();
+    drag = null;
+    notify();
+  }
+
+  function onPointerMove(nativeEvent: PointerEvent) {
+    if (!drag || nativeEvent.pointerId !== drag.pointerId) {
+      return;
+    }
+    moveGhost(nativeEvent);
+    const hit = pickDestination(nativeEvent);
+    if (drag.over && drag.over.target !== hit?.target) {
+      emitOver(drag.over, "pixidragleave", nativeEvent);
+    }
+    if (hit && drag.over?.target !== hit.target) {
+      emitOver(hit, "pixidragenter", nativeEvent);
+    }
+    drag.over = hit;
+    if (hit) {
+      emitOver(hit, "pixidragover", nativeEvent);
+    }
+  }
+
+  function onPointerUp(nativeEvent: PointerEvent) {
+    if (drag && nativeEvent.pointerId === drag.pointerId) {
+      end(nativeEvent, nativeEvent.type === "pointerup");
+    }
+  }
+
+  function onKeyDown(nativeEvent: KeyboardEvent) {
+    if (drag && nativeEvent.key === "Escape") {
+      end(new PointerEvent("pointercancel"), false);
+    }
+  }
+
+  return {
+    subscribe(callback) {
+      subscribers.add(callback);
+      return () => {
+        subscribers.delete(callback);
+      };
+    },
+    getSnapshot() {
+      return drag?.dragged ?? null;
+    },
+    addLayer(layer) {
+      layers.add(layer);
+      return () => {
+        layers.delete(layer);
+      };
+    },
+    addView(view) {
+      views.add(view);
+      return () => {
+        views.delete(view);
+      };
+    },
+    start(renderer, target, event, payload) {
+      if (drag) {
+        end(new PointerEvent("pointercancel"), false);
+      }
+      const layer = [...layers].find((layer) => {
+        const layerRoot = layer.getRoot();
+        return !!layerRoot && isAncestor(layerRoot, target);
+      });
+      const layerRoot = layer?.getRoot();
+      if (!layer || !layerRoot) {
+        throw Error("startDrag() target must be in a <CanvasView />");
+      }
+      const client = new Point(
+        event.nativeEvent.clientX,
+        event.nativeEvent.clientY,
+      );
+      const ghost = createGhost(renderer, target, layer, client);
+      drag = {
+        pointerId: event.pointerId,
+        dragged: target,
+        payload,
+        source: { container: layerRoot, target, global: event.global.clone() },
+        over: null,
+        ghost: ghost?.ghost ?? null,
+        ghostMatrix: ghost?.ghostMatrix ?? "",
+      };
+      moveGhost(event.nativeEvent);
+      emit(
+        target,
+        layerRoot,
+        "pixidragstart",
+        event.global,
+        event.nativeEvent as PointerEvent,
+        null,
+      );
+      notify();
+    },
+    cancel() {
+      end(new PointerEvent("pointercancel"), false);
+    },
+    connect(ghostRoot) {
+      root = ghostRoot;
+      window.addEventListener("pointermove", onPointerMove);
+      window.addEventListener("pointerup", onPointerUp);
+      window.addEventListener("pointercancel", onPointerUp);
+      window.addEventListener("keydown", onKeyDown);
+      return () => {
+        window.removeEventListener("pointermove", onPointerMove);
+        window.removeEventListener("pointerup", onPointerUp);
+        window.removeEventListener("pointercancel", onPointerUp);
+        window.removeEventListener("keydown", onKeyDown);
+        drag?.ghost?.remove();
+        drag = null;
+        root = null;
+      };
+    },
+  };
+}
+
+/**
+ * Registers a Pixi layer with the drag controller of the
+ * {@link RenderContext}.
+ *
+ * @internal
+ * @param pixiDrag - The drag controller
+ * @param layer - The layer root and mapping
+ */
+export function usePixiDragLayer(
+  pixiDrag: PixiDragController,
+  { getRoot, mapGlobalToClient }: PixiDragLayerSource,
+) {
+  const onGetRoot = useEffectEvent(getRoot);
+  const onMapGlobalToClient = useEffectEvent(mapGlobalToClient);
+
+  useEffect(
+    () =>
+      pixiDrag.addLayer({
+        getRoot: () => onGetRoot(),
+        mapGlobalToClient: (global, out) => onMapGlobalToClient(global, out),
+      }),
+    [pixiDrag],
+  );
+}
+
+/**
+ * Hook for dragging Pixi containers between canvas views and
+ * {@link PixiTexture} surfaces, e.g. stickers onto a 3D model.
+ *
+ * While dragging, a ghost of the container follows the pointer over the
+ * page. Dropping dispatches `pixidrop` to the container under the pointer,
+ * and `pixidragend` to the dragged container, both with the source and
+ * destination layers. The container is not moved: update the React state
+ * that renders it, so it is re-created in the destination layer at
+ * `destination.global`, the texture pixel of the UV hit point on a mesh.
+ *
+ * @category hook
+ * @returns The drag state and controls
+ * @throws If called outside of a {@link RenderContext}
+ * @example
+ * ```tsx
+ * const { startDrag } = usePixiDrag();
+ * const ref = useRef<Sprite>(null!);
+ * useEffect(() => {
+ *   const sprite = ref.current;
+ *   sprite.on("pointerdown", (event) => startDrag(sprite, event, sticker.id));
+ *   sprite.on("pixidragend", (event: FederatedPixiDragEvent) => {
+ *     if (event.destination) {
+ *       moveSticker(sticker.id, event.destination);
+ *     }
+ *   });
+ * }, [startDrag, sticker.id]);
+ * ```
+ */
+export function usePixiDrag(): PixiDragControls {
+  const { pixiDrag } = useRenderContext();
+  const { app } = useApplication();
+  const dragged = useSyncExternalStore(
+    pixiDrag.subscribe,
+    pixiDrag.getSnapshot,
+    pixiDrag.getSnapshot,
+  );
+  return {
+    dragged,
+    startDrag: (target, event, payload) => {
+      pixiDrag.start(app.renderer, target, event, payload);
+    },
+    cancelDrag: () => {
+      pixiDrag.cancel();
+    },
+  };
+}
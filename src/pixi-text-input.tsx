@@ -0,0 +1,489 @@
+import { extend, useTick } from "@pixi/react";
+import {
+  CanvasTextMetrics,
+  type ColorSource,
+  Container,
+  type FederatedPointerEvent,
+  Graphics,
+  Point,
+  Rectangle,
+  Text,
+  type TextStyle,
+  type TextStyleOptions,
+  UPDATE_PRIORITY,
+} from "pixi.js";
+import {
+  type ChangeEvent,
+  type HTMLAttributes,
+  type KeyboardEvent,
+  type Ref,
+  useId,
+  useImperativeHandle,
+  useRef,
+  useState,
+} from "react";
+
+import { useInvalidate } from "./canvas-tree-context";
+import { useCanvasView } from "./canvas-view-context";
+import {
+  usePixiTextureContextOptional,
+  usePixiViewContext,
+} from "./pixi-texture-context";
+import { useRenderContext } from "./render-context-hooks";
+
+extend({ Container, Graphics, Text });
+
+/** Caret blink interval in milliseconds, like most platforms */
+const CARET_BLINK_INTERVAL = 530;
+
+/**
+ * See {@link PixiTextInput}.
+ *
+ * @category component
+ * @expand
+ */
+export interface PixiTextInputProps {
+  /** Ref to the Pixi container of the field */
+  ref?: Ref<Container>;
+  /** Controlled value */
+  value?: string;
+  /** Initial value when uncontrolled */
+  defaultValue?: string;
+  /** Called with the new value on every edit, including IME composition */
+  onChange?: (value: string) => void;
+  /** Called with the value when Enter is pressed in a single-line field */
+  onSubmit?: (value: string) => void;
+  /** Text shown while the value is empty */
+  placeholder?: string;
+  /** Accepts line breaks, defaults to false. Lines do not wrap. */
+  multiline?: boolean;
+  /** X position in the parent container */
+  x?: number;
+  /** Y position in the parent container */
+  y?: number;
+  /** Width of the clickable area, defaults to 200 */
+  width?: number;
+  /** Height of the clickable area, defaults to the height of the text */
+  height?: number;
+  /** Pixi text style */
+  style?: TextStyleOptions;
+  /** Caret color, defaults to "black" */
+  caretColor?: ColorSource;
+  /** Selection highlight color, defaults to "#3390ff" */
+  selectionColor?: ColorSource;
+  /** Tab order, see {@link usePixiFocus} */
+  tabIndex?: number;
+  /** Virtual keyboard hint of the DOM element */
+  inputMode?: HTMLAttributes<HTMLElement>["inputMode"];
+  /** Accessible name of the DOM element */
+  "aria-label"?: string;
+}
+
+interface TextLayout {
+  lines: string[];
+  lineHeight: number;
+  style: TextStyle;
+}
+
+function getLayout(text: Text, value: string): TextLayout {
+  const style = text.style;
+  const { lineHeight } = CanvasTextMetrics.measureText(" ", style);
+  return { lines: value.split("\n"), lineHeight, style };
+}
+
+function measureWidth(text: string, style: TextStyle) {
+  return text ? CanvasTextMetrics.measureText(text, style).width : 0;
+}
+
+/** Local position of the caret before a character index */
+function getCaretPosition(
+  { lines, lineHeight, style }: TextLayout,
+  index: number,
+  out: Point,
+) {
+  let row = 0;
+  let rest = index;
+  while (row < lines.length - 1 && rest > lines[row].length) {
+    rest -= lines[row].length + 1;
+    row++;
+  }
+  return out.set(
+    measureWidth(lines[row].slice(0, rest), style),
+    row * lineHeight,
+  );
+}
+
+/** Character index nearest to a local position */
+function getCaretIndex({ lines, lineHeight, style }: TextLayout, point: Point) {
+  const row = Math.min(
+    Math.max(Math.floor(point.y / lineHeight), 0),
+    lines.length - 1,
+  );
+  let index = 0;
+  for (let i = 0; i < row; i++) {
+    index += lines[i].length + 1;
+  }
+  const line = lines[row];
+  let nearest = 0;
+  let nearestDistance = Infinity;
+  for (let i = 0; i <= line.length; i++) {
+    const distance = Math.abs(measureWidth(line.slice(0, i), style) - point.x);
+    if (distance < nearestDistance) {
+      nearest = i;
+      nearestDistance = distance;
+    }
+  }
+  return index + nearest;
+}
+
+/**
+ * Text field for Pixi content, backed by a hidden DOM `<input>` or
+ * `<textarea>`, so IME composition, autocorrect, selection shortcuts and
+ * virtual keyboards work like in any web form.
+ *
+ * It can be inside a {@link CanvasView} or a {@link PixiTexture} on a mesh.
+ * The field takes focus through {@link usePixiFocus}, which moves DOM focus
+ * to the hidden element. The element follows the caret in client
+ * coordinates after each frame, so IME candidate windows open next to the
+ * text even on a rotated mesh. The text, caret, selection and composition
+ * underline are drawn with Pixi.
+ *
+ * @category component
+ * @param props - Component props
+ * @example
+ * ```tsx
+ * const [name, setName] = useState("");
+ * return (
+ *   <PixiTexture width={512} height={128} attach="map">
+ *     <PixiTextInput
+ *       x={16}
+ *       y={16}
+ *       width={480}
+ *       value={name}
+ *       onChange={setName}
+ *       placeholder="お名前"
+ *       style={{ fontSize: 48 }}
+ *     />
+ *   </PixiTexture>
+ * );
+ * ```
+ */
+export function PixiTextInput({
+  ref,
+  value,
+  defaultValue,
+  onChange,
+  onSubmit,
+  placeholder = "",
+  multiline = false,
+  x,
+  y,
+  width = 200,
+  height,
+  style,
+  caretColor = "black",
+  selectionColor = "#3390ff",
+  tabIndex,
+  inputMode,
+  "aria-label": ariaLabel,
+}: PixiTextInputProps) {
+  const { domTunnel, focusManager } = useRenderContext();
+  const pixiTextureContext = usePixiTextureContextOptional();
+  const canvasView = useCanvasView();
+  const { mapPixiToClient } = usePixiViewContext();
+  const invalidate = useInvalidate();
+  const key = useId();
+
+  const containerRef = useRef<Container>(null!);
+  useImperativeHandle(ref, () => containerRef.current);
+  const textRef = useRef<Text>(null!);
+  const overlayRef = useRef<Graphics>(null!);
+  const elementRef = useRef<HTMLInputElement | HTMLTextAreaElement>(null);
+  // Unchanged text around the composition, set while composing
+  const compositionRef = useRef<{ prefix: number; suffix: number } | null>(
+    null,
+  );
+  // Selection anchor while dragging
+  const dragAnchorRef = useRef<number | null>(null);
+  const lastDrawRef = useRef({ state: "", blinkStart: 0, caretVisible: false });
+  const lastStyle = useRef({ transform: "", height: "", visibility: "" });
+  // Sized on each tick, the text height is only known after layout
+  const [hitArea] = useState(() => new Rectangle(0, 0, width, height ?? 0));
+
+  const _caret = new Point();
+  const _end = new Point();
+  const _global = new Point();
+  const _local = new Point();
+  const _client = new Point();
+  const _clientEnd = new Point();
+
+  function getSelection(element: HTMLInputElement | HTMLTextAreaElement) {
+    const length = element.value.length;
+    return [
+      element.selectionStart ?? length,
+      element.selectionEnd ?? length,
+    ] as const;
+  }
+
+  function draw() {
+    const text = textRef.current;
+    const overlay = overlayRef.current;
+    const element = elementRef.current;
+    if (!text || !overlay || !element) {
+      return;
+    }
+    const value = element.value;
+    text.text = value || placeholder;
+    text.alpha = value ? 1 : 0.5;
+    const area = containerRef.current.hitArea as Rectangle;
+    area.width = width;
+    area.height = height ?? text.height;
+
+    const isFocused = focusManager.getSnapshot() === containerRef.current;
+    const [start, end] = getSelection(element);
+    const composition = compositionRef.current;
+    const state = `${isFocused}:${start}:${end}:${!!composition}:${value}`;
+
+    const lastDraw = lastDrawRef.current;
+    const now = performance.now();
+    if (state !== lastDraw.state) {
+      lastDraw.blinkStart = now;
+    }
+    const caretVisible =
+      isFocused &&
+      start === end &&
+      Math.floor((now - lastDraw.blinkStart) / CARET_BLINK_INTERVAL) % 2 === 0;
+    if (state === lastDraw.state && caretVisible === lastDraw.caretVisible) {
+      return;
+    }
+    lastDraw.state = state;
+    lastDraw.caretVisible = caretVisible;
+
+    const layout = getLayout(text, value);
+    overlay.clear();
+    if (isFocused && start !== end) {
+      const [first, last] = [Math.min(start, end), Math.max(start, end)];
+      getCaretPosition(layout, first, _caret);
+      getCaretPosition(layout, last, _end);
+      for (let row = _caret.y; row <= _end.y; row += layout.lineHeight) {
+        const left = row === _caret.y ? _caret.x : 0;
+        const right =
+          row === _end.y
+            ? _end.x
+            : measureWidth(layout.lines[row / layout.lineHeight], layout.style);
+        overlay.rect(left, row, Math.max(right - left, 2), layout.lineHeight);
+      }
+      overlay.fill({ color: selectionColor, alpha: 0.4 });
+    }
+    if (composition) {
+      getCaretPosition(layout, composition.prefix, _caret);
+      getCaretPosition(layout, value.length - composition.suffix, _end);
+      overlay
+        .moveTo(_caret.x, _caret.y + layout.lineHeight - 1)
+        .lineTo(_end.x, _end.y + layout.lineHeight - 1)
+        .stroke({ color: caretColor, width: 1 });
+    }
+    if (caretVisible) {
+      getCaretPosition(layout, end, _caret);
+      overlay
+        .rect(_caret.x, _caret.y, 1.5, layout.lineHeight)
+        .fill({ color: caretColor });
+    }
+    invalidate();
+  }
+
+  /** Moves the DOM element to the caret in client coordinates */
+  function place() {
+    const element = elementRef.current;
+    const container = containerRef.current;
+    const text = textRef.current;
+    if (!element || !container || !text) {
+      return;
+    }
+    const root = pixiTextureContext?.containerRef ?? canvasView.containerRef;
+    const layout = getLayout(text, element.value);
+    getCaretPosition(layout, getSelection(element)[1], _caret);
+    _end.set(_caret.x, _caret.y + layout.lineHeight);
+
+    container.toGlobal(_caret, _global);
+    root.current.toLocal(_global, undefined, _local);
+    const [client] = mapPixiToClient(_local, _client);
+    container.toGlobal(_end, _global);
+    root.current.toLocal(_global, undefined, _local);
+    const [clientEnd] = mapPixiToClient(_local, _clientEnd);
+
+    const next =
+      client && clientEnd && container.visible
+        ? {
+            transform: `translate(${client.x}px, ${client.y}px)`,
+            height: `${Math.max(Math.hypot(clientEnd.x - client.x, clientEnd.y - client.y), 1)}px`,
+            visibility: "visible",
+          }
+        : { ...lastStyle.current, visibility: "hidden" };
+
+    // Only touch the DOM when the caret moved
+    const last = lastStyle.current;
+    if (next.transform !== last.transform) {
+      element.style.transform = next.transform;
+    }
+    if (next.height !== last.height) {
+      element.style.height = next.height;
+    }
+    if (next.visibility !== last.visibility) {
+      element.style.visibility = next.visibility;
+    }
+    lastStyle.current = next;
+  }
+
+  useTick(draw);
+
+  useTick({
+    callback: place,
+    // After the render graph, so the element matches the rendered frame
+    priority: UPDATE_PRIORITY.UTILITY - 1,
+  });
+
+  function getPointerIndex(event: FederatedPointerEvent) {
+    const element = elementRef.current;
+    if (!element) {
+      return null;
+    }
+    const layout = getLayout(textRef.current, element.value);
+    return getCaretIndex(layout, event.getLocalPosition(textRef.current));
+  }
+
+  function onPointerDown(event: FederatedPointerEvent) {
+    const index = getPointerIndex(event);
+    const element = elementRef.current;
+    if (index === null || !element || event.button !== 0) {
+      return;
+    }
+    focusManager.focus(containerRef.current);
+    const [start, end] = getSelection(element);
+    const anchor =
+      event.shiftKey && element.selectionDirection === "backward"
+        ? end
+        : event.shiftKey
+          ? start
+          : index;
+    dragAnchorRef.current = anchor;
+    element.setSelectionRange(
+      Math.min(anchor, index),
+      Math.max(anchor, index),
+      index < anchor ? "backward" : "forward",
+    );
+  }
+
+  function onPointerMove(event: FederatedPointerEvent) {
+    const anchor = dragAnchorRef.current;
+    const index = getPointerIndex(event);
+    if (anchor === null || index === null || !(event.buttons & 1)) {
+      return;
+    }
+    elementRef.current?.setSelectionRange(
+      Math.min(anchor, index),
+      Math.max(anchor, index),
+      index < anchor ? "backward" : "forward",
+    );
+  }
+
+  function onPointerUp() {
+    dragAnchorRef.current = null;
+  }
+
+  /** Draws the overlay again on the next tick */
+  function redraw() {
+    lastDrawRef.current.state = "";
+  }
+
+  function attachElement(
+    element: HTMLInputElement | HTMLTextAreaElement | null,
+  ) {
+    if (!element) {
+      return;
+    }
+    elementRef.current = element;
+    return focusManager.addInput(containerRef.current, element);
+  }
+
+  const elementProps = {
+    value,
+    defaultValue,
+    inputMode,
+    "aria-label": ariaLabel ?? (placeholder || undefined),
+    autoComplete: "off",
+    tabIndex: -1,
+    onChange: (event: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+      onChange?.(event.currentTarget.value);
+    },
+    onKeyDown: (
+      event: KeyboardEvent<HTMLInputElement | HTMLTextAreaElement>,
+    ) => {
+      if (
+        event.key === "Enter" &&
+        !multiline &&
+        !event.nativeEvent.isComposing
+      ) {
+        onSubmit?.(event.currentTarget.value);
+      }
+    },
+    onCompositionStart: () => {
+      const element = elementRef.current;
+      if (!element) {
+        return;
+      }
+      const [start, end] = getSelection(element);
+      compositionRef.current = {
+        prefix: Math.min(start, end),
+        suffix: element.value.length - Math.max(start, end),
+      };
+    },
+    onCompositionEnd: () => {
+      compositionRef.current = null;
+    },
+    style: {
+      position: "fixed",
+      top: 0,
+      left: 0,
+      width: 1,
+      padding: 0,
+      border: 0,
+      margin: 0,
+      opacity: 0,
+      resize: "none",
+      overflow: "hidden",
+      caretColor: "transparent",
+      pointerEvents: "none",
+      visibility: "hidden",
+    },
+  } as const;
+
+  return (
+    <>
+      <pixiContainer
+        ref={containerRef}
+        x={x}
+        y={y}
+        eventMode="static"
+        cursor="text"
+        focusable
+        tabIndex={tabIndex}
+        hitArea={hitArea}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerUpOutside={onPointerUp}
+      >
+        <pixiText ref={textRef} style={style} />
+        <pixiGraphics ref={overlayRef} draw={redraw} />
+      </pixiContainer>
+      <domTunnel.In>
+        {multiline ? (
+          <textarea key={key} ref={attachElement} {...elementProps} />
+        ) : (
+          <input key={key} ref={attachElement} type="text" {...elementProps} />
+        )}
+      </domTunnel.In>
+    </>
+  );
+}
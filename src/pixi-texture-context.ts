@@ -16,6 +16,8 @@ export interface PixiTextureContextValue {
   height: number;
   containerRef: RefObject<Container>;
   getAttachedObject: () => Object3D | undefined;
+  /** Captures a pointer in the texture and its parent layers */
+  capturePointer: (pointerId: number) => () => void;
   /**
    * Hit tests a point against the Pixi container tree.
    * @param x - X coordinate in Pixi texture space
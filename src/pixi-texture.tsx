@@ -1,17 +1,18 @@
-import { extend, useApplication, useTick } from "@pixi/react";
+import { extend, useApplication } from "@pixi/react";
 import {
   type AttachType,
   createPortal,
   type DomEvent,
   type RootState,
+  useThree,
 } from "@react-three/fiber";
 import {
   Container,
   EventBoundary,
-  type GpuTextureSystem,
   Point,
   Rectangle,
   RenderTexture,
+  Texture as PixiTextureType,
   TextureSource,
 } from "pixi.js";
 import {
@@ -27,7 +28,7 @@ import {
   useState,
 } from "react";
 import {
-  ExternalTexture,
+  type ExternalTexture,
   type Intersection,
   Mesh,
   Scene,
@@ -36,17 +37,37 @@ import {
   Vector3,
 } from "three";
 import { texture } from "three/tsl";
-import { type Object3D, type TextureNode } from "three/webgpu";
+import {
+  type Object3D,
+  type TextureNode,
+  type WebGPURenderer,
+} from "three/webgpu";
 
+import {
+  AccessibilityLayerContext,
+  useAccessibilitySource,
+} from "./accessibility-tree";
 import {
   mapPixiToUv as mapPixiToUvUtil,
   mapUvToPixi as mapUvToPixiUtil,
+  projectRayToMeshPlaneIntersection,
   traceUvToThree,
   traceUvToThreeLocal,
 } from "./bijections";
 import { CanvasTreeContext, useCanvasTreeStore } from "./canvas-tree-context";
 import { useCanvasView } from "./canvas-view-context";
+import {
+  FeedbackTextureContext,
+  getFeedbackDepth,
+} from "./feedback-texture-context";
+import { useGestureLayer } from "./gestures";
+import { usePickLayer } from "./pick";
+import { usePixiDragLayer } from "./pixi-drag";
 import { PixiTextureContext } from "./pixi-texture-context";
+import {
+  createThreeExternalTexture,
+  getPixiNativeTexture,
+} from "./render-backend";
 import { useRenderContext } from "./render-context-hooks";
 import { useAttachedObject } from "./three-fiber";
 import {
@@ -55,6 +76,8 @@ import {
 } from "./three-scene-context";
 import { useBridge } from "./use-bridge";
 import { usePixiEventDispatch } from "./use-pixi-event-dispatch";
+import { usePointerCaptures } from "./use-pointer-captures";
+import { useRenderCallback, useRenderNode } from "./use-render-node";
 import { useRenderSchedule } from "./use-render-schedule";
 
 extend({ Container });
@@ -102,6 +125,12 @@ export interface PixiTextureProps extends PropsWithChildren {
   frameloop?: "always" | "demand";
   /** Optional FPS limit */
   fpsLimit?: number;
+  /**
+   * Optional feedback mode, defaults to false. Renders into a second buffer
+   * so content can sample the previous frame with {@link useFeedbackTexture}.
+   * A number sets the recursion depth, how often the loop renders per frame.
+   */
+  feedback?: boolean | number;
   /** Enable event handling, defaults to true */
   events?: boolean;
   /** Optional event priority, defaults to 0 */
@@ -127,6 +156,11 @@ export interface PixiTextureEventData {
  *
  * It must be inside a {@link ThreeScene} component.
  *
+ * A Pixi handler keeps receiving a pointer outside of the texture by
+ * capturing it on pointerdown with
+ * `event.nativeEvent.target.setPointerCapture(event.pointerId)`, until
+ * pointerup or pointercancel.
+ *
  * @category component
  * @param props - Component props
  * @example
@@ -157,6 +191,7 @@ export function PixiTexture({
   height,
   frameloop,
   fpsLimit,
+  feedback,
   events,
   eventPriority,
   eventGuard,
@@ -164,6 +199,9 @@ export function PixiTexture({
   const Bridge = useBridge();
   const { pixiTextureTunnel } = useRenderContext();
   const parentThreeSceneContext = useThreeSceneContext();
+  const threeRenderer = useThree(
+    (state) => state.gl,
+  ) as unknown as WebGPURenderer;
   const key = useId();
 
   const getAttachedObject = useAttachedObject(objectRef);
@@ -187,6 +225,7 @@ export function PixiTexture({
         <Bridge key={key}>
           <PixiTextureInternal
             parentThreeSceneContext={parentThreeSceneContext}
+            threeRenderer={threeRenderer}
             getAttachedObject={getAttachedObject}
             textureRef={textureRef}
             containerRef={containerRef}
@@ -194,6 +233,7 @@ export function PixiTexture({
             height={height}
             frameloop={frameloop}
             fpsLimit={fpsLimit}
+            feedback={feedback}
             events={events}
             eventPriority={eventPriority}
             eventGuard={eventGuard}
@@ -208,12 +248,31 @@ export function PixiTexture({
   );
 }
 
+interface PixiTextureBuffer {
+  pixiTexture: RenderTexture;
+  threeTexture: ExternalTexture;
+}
+
+/** Shows a buffer to consumers and to content sampling the previous frame */
+function setFrontBuffer(
+  textureNode: TextureNode,
+  feedbackTexture: PixiTextureType,
+  { pixiTexture, threeTexture }: PixiTextureBuffer,
+) {
+  textureNode.value = threeTexture;
+  feedbackTexture.source = pixiTexture.source;
+  feedbackTexture.frame.copyFrom(pixiTexture.frame);
+  feedbackTexture.update();
+}
+
 interface PixiTextureInternalProps extends Omit<
   PixiTextureProps,
   "ref" | "objectRef" | "attach"
 > {
   /** Parent Three Scene Context */
   parentThreeSceneContext: ThreeSceneContextValue;
+  /** Three Renderer */
+  threeRenderer: WebGPURenderer;
   /** Get attached object */
   getAttachedObject: () => Object3D | undefined;
   /** TextureNode Ref */
@@ -222,6 +281,7 @@ interface PixiTextureInternalProps extends Omit<
 
 function PixiTextureInternal({
   parentThreeSceneContext,
+  threeRenderer,
   getAttachedObject,
   containerRef: containerRefProp,
   children,
@@ -230,15 +290,32 @@ function PixiTextureInternal({
   height,
   frameloop,
   fpsLimit,
+  feedback,
   events,
   eventPriority,
   eventGuard,
 }: PixiTextureInternalProps) {
   const app = useApplication();
   const { canvasRef } = useCanvasView();
+  const { focusManager, accessibilityTree, gestures, pixiDrag } =
+    useRenderContext();
 
   const containerRef = useRef<Container>(null!);
-  const pixiTextureRef = useRef(new RenderTexture());
+
+  useEffect(() => focusManager.addRoot(containerRef, true), [focusManager]);
+  // Render target first, followed by the front buffer in feedback mode
+  const buffersRef = useRef<PixiTextureBuffer[]>([]);
+  const [feedbackTexture] = useState(() => new PixiTextureType());
+  const [feedbackSubscribers] = useState(() => new Set<() => void>());
+  const feedbackDepth = getFeedbackDepth(feedback);
+  const hasFeedback = feedbackDepth > 0;
+
+  function subscribe(callback: () => void) {
+    feedbackSubscribers.add(callback);
+    return () => {
+      feedbackSubscribers.delete(callback);
+    };
+  }
 
   const [eventScene] = useState(() => new Scene());
   const dispatchEvent = usePixiEventDispatch({
@@ -251,9 +328,42 @@ function PixiTextureInternal({
   // Reusable point for UV to Pixi mapping
   const _point = new Point();
 
+  const { isPointerCaptured, capturePointer } = usePointerCaptures(
+    parentThreeSceneContext.capturePointer,
+  );
+  // Pointers a Pixi target captured, released on pointerup or pointercancel
+  const [capturedPointers] = useState(() => new Map<number, () => void>());
+
+  /** Whether the DOM target of an event has captured its pointer */
+  function hasDomCapture(event: DomEvent) {
+    const pointerId = (event as PointerEvent).pointerId;
+    const target = event.target as Element | null;
+    return pointerId !== undefined && !!target?.hasPointerCapture?.(pointerId);
+  }
+
+  function releaseCapturedPointer(event: DomEvent) {
+    if (event.type !== "pointerup" && event.type !== "pointercancel") {
+      return;
+    }
+    const pointerId = (event as PointerEvent).pointerId;
+    capturedPointers.get(pointerId)?.();
+    capturedPointers.delete(pointerId);
+  }
+
   function computeFn(event: DomEvent, _state: RootState, previous?: RootState) {
+    try {
+      return computeTextureFn(event, previous);
+    } finally {
+      // Also when the pointer is released outside of the texture
+      releaseCapturedPointer(event);
+    }
+  }
+
+  function computeTextureFn(event: DomEvent, previous?: RootState) {
     if (!previous) return false;
 
+    const isCaptured = isPointerCaptured((event as PointerEvent).pointerId);
+
     // Call parent's compute first to set up raycaster
     const status = previous.events.compute?.(
       event,
@@ -263,7 +373,7 @@ function PixiTextureInternal({
 
     // If parent compute returns false (e.g., pointer not over ThreeScene sprite),
     // we still need to dispatch null if we were previously over
-    if (status === false) {
+    if (status === false && !isCaptured) {
       if (wasOverRef.current) {
         dispatchEvent(event, null);
         wasOverRef.current = false;
@@ -276,21 +386,41 @@ function PixiTextureInternal({
 
     const intersections = previous.raycaster.intersectObject(object);
     const testGuard = eventGuard?.({ intersections }) ?? true;
-    const [intersection] = intersections;
-    const uv = intersection?.uv;
+    let uv = intersections[0]?.uv;
+    if (!uv && isCaptured && object instanceof Mesh) {
+      // Extrapolate captured pointers that leave the mesh through its plane,
+      // so Pixi keeps receiving moves and the release
+      uv = projectRayToMeshPlaneIntersection(
+        previous.raycaster.ray,
+        object,
+      )?.uv;
+    }
     if (uv) {
       mapUvToPixi(uv, _point);
     }
 
-    const isOver = !!(uv && testGuard);
+    const isOver = !!(uv && (testGuard || isCaptured));
     const point: Point | null = isOver ? _point : null;
 
     // Dispatch to Pixi if we have a point OR if we were previously over
     // (to send null for proper pointer out/leave handling)
+    const hadDomCapture = hasDomCapture(event);
     if (isOver || wasOverRef.current) {
       dispatchEvent(event, point);
     }
 
+    // A Pixi handler captured the pointer on its DOM target
+    const pointerId = (event as PointerEvent).pointerId;
+    if (
+      event.type === "pointerdown" &&
+      isOver &&
+      !hadDomCapture &&
+      hasDomCapture(event) &&
+      !capturedPointers.has(pointerId)
+    ) {
+      capturedPointers.set(pointerId, capturePointer(pointerId));
+    }
+
     wasOverRef.current = isOver;
 
     return false;
@@ -301,20 +431,30 @@ function PixiTextureInternal({
   });
 
   function render() {
+    const buffers = buffersRef.current;
     app.app.renderer.render({
       container: containerRef.current,
-      target: pixiTextureRef.current,
+      target: buffers[0].pixiTexture,
       label: "pixi-texture",
     });
+    if (buffers.length > 1) {
+      buffers.reverse();
+      setFrontBuffer(textureRef.current, feedbackTexture, buffers[1]);
+      feedbackSubscribers.forEach((callback) => callback());
+    }
   }
 
-  useTick({
-    callback: () => {
-      if (frameloop === "always" || isFrameRequested()) {
-        render();
-        signalFrame();
-      }
-    },
+  const renderNode = useRenderNode({
+    label: "pixi-texture",
+    output: textureRef,
+    feedback: feedbackDepth,
+  });
+
+  useRenderCallback(renderNode, (pass, passes) => {
+    if (frameloop === "always" || isFrameRequested()) {
+      render();
+      signalFrame(pass === passes - 1);
+    }
   });
 
   const store = useCanvasTreeStore();
@@ -325,25 +465,43 @@ function PixiTextureInternal({
 
   useImperativeHandle(containerRefProp, () => containerRef.current);
 
-  useEffect(
-    () => () => {
-      pixiTextureRef.current.source.destroy();
-      pixiTextureRef.current.destroy();
-    },
-    [],
-  );
+  useEffect(() => () => feedbackTexture.destroy(), [feedbackTexture]);
 
   useLayoutEffect(() => {
-    pixiTextureRef.current.destroy();
-    pixiTextureRef.current = new RenderTexture({
-      source: new TextureSource({ width, height, autoGarbageCollect: false }),
+    const buffers = Array.from({ length: hasFeedback ? 2 : 1 }, () => {
+      const pixiTexture = new RenderTexture({
+        source: new TextureSource({ width, height, autoGarbageCollect: false }),
+      });
+      const nativeTexture = getPixiNativeTexture(
+        app.app.renderer,
+        pixiTexture._source,
+      );
+      return {
+        pixiTexture,
+        threeTexture: createThreeExternalTexture(threeRenderer, nativeTexture),
+      };
     });
-    const gpuTexture = (
-      app.app.renderer.texture as GpuTextureSystem
-    ).getGpuSource(pixiTextureRef.current._source);
-    textureRef.current.value.dispose();
-    textureRef.current.value = new ExternalTexture(gpuTexture);
-  }, [app.app.renderer.texture, height, textureRef, width]);
+    buffersRef.current = buffers;
+    setFrontBuffer(
+      textureRef.current,
+      feedbackTexture,
+      buffers[buffers.length - 1],
+    );
+    return () => {
+      buffers.forEach(({ pixiTexture, threeTexture }) => {
+        threeTexture.dispose();
+        pixiTexture.destroy(true);
+      });
+    };
+  }, [
+    app.app.renderer,
+    feedbackTexture,
+    hasFeedback,
+    height,
+    textureRef,
+    threeRenderer,
+    width,
+  ]);
 
   const localEventBoundary = new EventBoundary();
   function hitTest(x: number, y: number) {
@@ -450,11 +608,50 @@ function PixiTextureInternal({
     return null;
   }
 
+  const accessibilityLayer = useAccessibilitySource(accessibilityTree, {
+    type: "pixi",
+    getRoot: () => containerRef.current,
+    mapPixiToClient: (local, out) => mapPixiToClient(local, out)[0] ?? null,
+  });
+
+  const _local = new Point();
+  useGestureLayer(gestures, {
+    getRoot: () => containerRef.current,
+    mapClientToGlobal: (client, out) => {
+      const local = mapClientToPixi(client, _local);
+      return local && containerRef.current.toGlobal(local, out);
+    },
+  });
+
+  const _dragLocal = new Point();
+  usePixiDragLayer(pixiDrag, {
+    getRoot: () => containerRef.current,
+    mapGlobalToClient: (global, out) =>
+      mapPixiToClient(
+        containerRef.current.toLocal(global, undefined, _dragLocal),
+        out,
+      )[0] ?? null,
+  });
+
+  usePickLayer({
+    getOwner: getAttachedObject,
+    pick: (ownerHit) => {
+      const uv = ownerHit.type === "three" ? ownerHit.intersection.uv : null;
+      if (!uv) {
+        return null;
+      }
+      const point = mapUvToPixi(uv);
+      const target = hitTest(point.x, point.y);
+      return target
+        ? { type: "pixi", container: containerRef.current, target, point }
+        : null;
+    },
+  });
+
   const key = useId();
 
   return (
     <>
-      {/* eslint-disable react-hooks/refs -- computeFn does not access during render */}
       {events !== false && (
         <parentThreeSceneContext.sceneTunnel.In>
           <Fragment key={key}>
@@ -467,13 +664,14 @@ function PixiTextureInternal({
           </Fragment>
         </parentThreeSceneContext.sceneTunnel.In>
       )}
-      <CanvasTreeContext value={{ store, invalidate }}>
+      <CanvasTreeContext value={{ store, invalidate, renderNode }}>
         <PixiTextureContext
           value={{
             width,
             height,
             containerRef,
             getAttachedObject,
+            capturePointer,
             hitTest,
             mapUvToPixi,
             mapPixiToParentUv,
@@ -492,7 +690,21 @@ function PixiTextureInternal({
             height={height}
             hitArea={new Rectangle(0, 0, width, height)}
           >
-            {children}
+            <FeedbackTextureContext
+              value={
+                hasFeedback
+                  ? {
+                      output: textureRef,
+                      pixiTexture: feedbackTexture,
+                      subscribe,
+                    }
+                  : null
+              }
+            >
+              <AccessibilityLayerContext value={accessibilityLayer}>
+                {children}
+              </AccessibilityLayerContext>
+            </FeedbackTextureContext>
           </pixiContainer>
         </PixiTextureContext>
       </CanvasTreeContext>
@@ -0,0 +1,249 @@
+import {
+  type GlTextureSystem,
+  type GpuTextureSystem,
+  type Renderer,
+  RendererType,
+  type TextureSource,
+  type WebGLRenderer as PixiWebGLRenderer,
+  type WebGPURenderer as PixiWebGPURenderer,
+} from "pixi.js";
+import { ExternalTexture, type Texture } from "three";
+import { type WebGPURenderer } from "three/webgpu";
+
+/**
+ * Graphics API shared by the Pixi and Three renderers.
+ *
+ * - `"webgpu"`: Pixi and Three share one `GPUDevice`
+ * - `"webgl"`: Pixi and Three share one `WebGL2RenderingContext`
+ *
+ * @category hook
+ */
+export type RenderBackend = "webgpu" | "webgl";
+
+/**
+ * A texture owned by the shared graphics API.
+ * @internal
+ */
+export type NativeTexture = GPUTexture | WebGLTexture;
+
+interface ThreeBackendTextureData {
+  /** Set by the WebGPU backend */
+  texture?: GPUTexture;
+  /** Set by the WebGL backend */
+  textureGPU?: WebGLTexture;
+  glTextureType?: number;
+  glFormat?: number;
+  glType?: number;
+  glInternalFormat?: number;
+}
+
+interface ThreeBackendInternals {
+  isWebGLBackend?: boolean;
+  gl: WebGL2RenderingContext;
+  data: WeakMap<object, ThreeBackendTextureData>;
+}
+
+interface ThreeWebGLStateInternals {
+  currentScissor: { set(x: number, y: number, z: number, w: number): void };
+  currentViewport: { set(x: number, y: number, z: number, w: number): void };
+}
+
+/** Cached fields of the Three WebGL state, as its constructor sets them */
+const THREE_WEBGL_STATE_FIELDS = [
+  "currentFlipSided",
+  "currentCullFace",
+  "currentProgram",
+  "currentBlending",
+  "currentBlendSrc",
+  "currentBlendDst",
+  "currentBlendSrcAlpha",
+  "currentBlendDstAlpha",
+  "currentPremultipledAlpha",
+  "currentPolygonOffsetFactor",
+  "currentPolygonOffsetUnits",
+  "currentColorMask",
+  "currentDepthFunc",
+  "currentDepthMask",
+  "currentStencilFunc",
+  "currentStencilRef",
+  "currentStencilFuncMask",
+  "currentStencilFail",
+  "currentStencilZFail",
+  "currentStencilZPass",
+  "currentStencilMask",
+  "currentLineWidth",
+  "currentVAO",
+  "currentIndex",
+  "currentTextureSlot",
+] as const;
+
+/**
+ * Forgets the GL state cached by the Three WebGL state, like a new state
+ * does, without querying the context.
+ */
+function resetThreeWebGLState(state: ThreeWebGLStateInternals) {
+  THREE_WEBGL_STATE_FIELDS.forEach((field) => {
+    (state as unknown as Record<string, unknown>)[field] = null;
+  });
+  Object.assign(state, {
+    enabled: {},
+    currentBlendingEnabled: false,
+    currentClippingPlanes: 0,
+    currentBoundFramebuffers: {},
+    currentDrawbuffers: new WeakMap(),
+    currentBoundTextures: {},
+    currentBoundBufferBases: {},
+  });
+  // Never equal to a real rectangle, so the next ones are applied
+  state.currentScissor.set(-1, -1, -1, -1);
+  state.currentViewport.set(-1, -1, -1, -1);
+}
+
+interface ThreeRendererInternals {
+  _textures: {
+    get(texture: Texture): {
+      initialized?: boolean;
+      version?: number;
+      generation?: number;
+    };
+  };
+}
+
+/**
+ * Gets the graphics API of a Pixi renderer.
+ *
+ * @internal
+ * @param renderer - The Pixi renderer
+ * @returns The render backend
+ * @throws If the renderer cannot share its context with Three
+ */
+export function getRenderBackend(renderer: Renderer): RenderBackend {
+  if (renderer.type === RendererType.WEBGPU) {
+    return "webgpu";
+  }
+  if (
+    renderer.type === RendererType.WEBGL &&
+    (renderer as PixiWebGLRenderer).context.webGLVersion === 2
+  ) {
+    return "webgl";
+  }
+  throw Error("PixiThree requires a WebGPU or WebGL2 Pixi renderer");
+}
+
+/**
+ * Gets the native texture backing a Pixi texture source.
+ *
+ * @internal
+ * @param renderer - The Pixi renderer
+ * @param source - The Pixi texture source
+ * @returns The GPUTexture or WebGLTexture
+ */
+export function getPixiNativeTexture(
+  renderer: Renderer,
+  source: TextureSource,
+): NativeTexture {
+  if (getRenderBackend(renderer) === "webgpu") {
+    return (renderer.texture as GpuTextureSystem).getGpuSource(source);
+  }
+  return (renderer.texture as GlTextureSystem).getGlSource(source).texture;
+}
+
+/**
+ * Gets the native texture backing a Three texture, if it has been uploaded.
+ *
+ * @internal
+ * @param renderer - The Three renderer
+ * @param texture - The Three texture
+ * @returns The GPUTexture or WebGLTexture
+ */
+export function getThreeNativeTexture(
+  renderer: WebGPURenderer,
+  texture: Texture,
+): NativeTexture | undefined {
+  const data = (renderer.backend as unknown as ThreeBackendInternals).data.get(
+    texture,
+  );
+  return data?.texture ?? data?.textureGPU;
+}
+
+/**
+ * Wraps a native texture in a Three texture.
+ *
+ * The WebGL backend of Three does not support {@link https://threejs.org/docs/#ExternalTexture | ExternalTexture},
+ * so the texture is registered with the backend directly. Three does not
+ * take ownership of it and will not delete it on dispose.
+ *
+ * @internal
+ * @param renderer - The Three renderer
+ * @param nativeTexture - The GPUTexture or WebGLTexture
+ * @returns The Three texture
+ */
+export function createThreeExternalTexture(
+  renderer: WebGPURenderer,
+  nativeTexture: NativeTexture,
+): ExternalTexture {
+  const texture = new ExternalTexture(nativeTexture);
+  const backend = renderer.backend as unknown as ThreeBackendInternals;
+  if (backend.isWebGLBackend) {
+    const gl = backend.gl;
+    backend.data.set(texture, {
+      textureGPU: nativeTexture as WebGLTexture,
+      glTextureType: gl.TEXTURE_2D,
+      glFormat: gl.RGBA,
+      glType: gl.UNSIGNED_BYTE,
+      glInternalFormat: gl.RGBA8,
+    });
+    Object.assign(
+      (renderer as unknown as ThreeRendererInternals)._textures.get(texture),
+      {
+        initialized: true,
+        version: texture.version,
+        generation: texture.version,
+      },
+    );
+  }
+  return texture;
+}
+
+/**
+ * Invalidates the cached WebGL state of both renderers after the other has
+ * drawn to the shared context. No-op for WebGPU, which has no global state.
+ *
+ * @internal
+ * @param pixiRenderer - The Pixi renderer
+ * @param threeRenderer - The Three renderer
+ * @param next - Which renderer draws next
+ */
+export function resetSharedState(
+  pixiRenderer: Renderer,
+  threeRenderer: WebGPURenderer,
+  next: "pixi" | "three",
+) {
+  const backend = threeRenderer.backend as unknown as ThreeBackendInternals & {
+    state: ThreeWebGLStateInternals;
+  };
+  if (!backend.isWebGLBackend) {
+    return;
+  }
+  if (next === "pixi") {
+    pixiRenderer.resetState();
+  } else {
+    resetThreeWebGLState(backend.state);
+  }
+}
+
+/**
+ * Resolves once the GPU has finished all work submitted by a Pixi renderer.
+ *
+ * @internal
+ * @param renderer - The Pixi renderer
+ */
+export async function waitForRenderer(renderer: Renderer) {
+  if (getRenderBackend(renderer) === "webgpu") {
+    await (
+      renderer as PixiWebGPURenderer
+    ).gpu.device.queue.onSubmittedWorkDone();
+  } else {
+    (renderer as PixiWebGLRenderer).gl.finish();
+  }
+}
@@ -0,0 +1,143 @@
+import { Ticker } from "pixi.js";
+
+/**
+ * Controls for the time shared by Pixi `useTick` callbacks and
+ * React Three Fiber `useFrame` callbacks. See {@link useRenderClock}.
+ *
+ * @category hook
+ * @expand
+ */
+export interface RenderClockControls {
+  /** Whether the clock is paused */
+  paused: boolean;
+  /** Multiplier applied to elapsed time */
+  timeScale: number;
+  /**
+   * Gets the clock time. Not reactive, read it inside tick or frame callbacks.
+   * @returns Elapsed clock time in seconds
+   */
+  getTime: () => number;
+  /** Stops time from advancing. Frames keep rendering with a zero delta. */
+  pause: () => void;
+  /** Resumes advancing time */
+  resume: () => void;
+  /**
+   * Sets the time multiplier, e.g. 0.25 for slow motion.
+   * @param timeScale - Non-negative multiplier
+   */
+  setTimeScale: (timeScale: number) => void;
+  /**
+   * Advances a paused clock on the next frame, ignoring the time scale.
+   * @param dt - Seconds to advance
+   */
+  step: (dt: number) => void;
+  /**
+   * Jumps to a clock time on the next frame. The jump itself has a zero delta;
+   * animations driven by `state.clock.elapsedTime` follow it.
+   * @param time - Clock time in seconds
+   */
+  seek: (time: number) => void;
+}
+
+interface RenderClockState {
+  paused: boolean;
+  timeScale: number;
+}
+
+/** @internal */
+export interface RenderClock {
+  subscribe: (callback: () => void) => () => void;
+  getSnapshot: () => RenderClockState;
+  /** Elapsed clock time in milliseconds */
+  getTime: () => number;
+  /** Incremented by each applied seek */
+  getSeekCount: () => number;
+  /** Ticker listener that must run before other tick callbacks */
+  tick: (ticker: Ticker) => void;
+  pause: () => void;
+  resume: () => void;
+  setTimeScale: (timeScale: number) => void;
+  step: (dt: number) => void;
+  seek: (time: number) => void;
+}
+
+/**
+ * Creates the clock for a {@link RenderContext}.
+ *
+ * The clock listens to the shared Pixi ticker at high priority and rewrites
+ * `ticker.deltaMS` and `ticker.deltaTime`, so every later `useTick` callback
+ * sees clock time. {@link ThreeRoot} advances React Three Fiber from
+ * {@link RenderClock.getTime}, so `useFrame` deltas match.
+ *
+ * @internal
+ * @returns The render clock
+ */
+export function createRenderClock(): RenderClock {
+  const subscribers = new Set<() => void>();
+  let snapshot: RenderClockState = { paused: false, timeScale: 1 };
+  let time = 0;
+  let pendingStep = 0;
+  let pendingSeek: number | null = null;
+  let seekCount = 0;
+
+  function update(next: Partial<RenderClockState>) {
+    snapshot = { ...snapshot, ...next };
+    subscribers.forEach((callback) => callback());
+  }
+
+  return {
+    subscribe(callback) {
+      subscribers.add(callback);
+      return () => {
+        subscribers.delete(callback);
+      };
+    },
+    getSnapshot() {
+      return snapshot;
+    },
+    getTime() {
+      return time;
+    },
+    getSeekCount() {
+      return seekCount;
+    },
+    tick(ticker) {
+      let delta: number;
+      if (pendingSeek !== null) {
+        time = pendingSeek;
+        pendingSeek = null;
+        seekCount++;
+        delta = 0;
+      } else if (snapshot.paused) {
+        delta = pendingStep;
+      } else {
+        // Cap like the Pixi ticker, so a backgrounded tab does not jump ahead
+        const elapsed = Math.min(ticker.elapsedMS, 1000 / ticker.minFPS);
+        delta = elapsed * ticker.speed * snapshot.timeScale;
+      }
+      pendingStep = 0;
+      time += delta;
+      ticker.deltaMS = delta;
+      ticker.deltaTime = delta * Ticker.targetFPMS;
+    },
+    pause() {
+      update({ paused: true });
+    },
+    resume() {
+      pendingStep = 0;
+      update({ paused: false });
+    },
+    setTimeScale(timeScale) {
+      if (timeScale < 0) {
+        throw Error("setTimeScale() requires a non-negative time scale");
+      }
+      update({ timeScale });
+    },
+    step(dt) {
+      pendingStep += dt * 1000;
+    },
+    seek(time) {
+      pendingSeek = time * 1000;
+    },
+  };
+}
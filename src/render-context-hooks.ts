@@ -1,7 +1,24 @@
-import { createContext, type RefObject, useContext } from "react";
+import {
+  createContext,
+  type RefObject,
+  useContext,
+  useSyncExternalStore,
+} from "react";
 import type tunnel from "tunnel-rat";
 
+import { type AccessibilityTree } from "./accessibility-tree";
+import { type FocusManager, type PixiFocusControls } from "./focus-manager";
+import { type GestureRecognizer } from "./gestures";
+import {
+  type InputRecorder,
+  type InputRecorderControls,
+} from "./input-recorder";
+import { type PixiDragController } from "./pixi-drag";
 import { type PixiSyntheticEventSystem } from "./pixi-synthetic-event-system";
+import { type RenderBackend } from "./render-backend";
+import { type RenderClock, type RenderClockControls } from "./render-clock";
+import { type RenderGraph } from "./render-graph";
+import { type ThreeSceneRegistry } from "./three-scene-registry";
 
 /**
  * @internal
@@ -10,8 +27,26 @@ export interface RenderContextValue {
   tunnel: ReturnType<typeof tunnel>;
   eventContainer: RefObject<HTMLDivElement>;
   pixiEvents: PixiSyntheticEventSystem | null;
+  backend: RenderBackend | null;
+  clock: RenderClock;
+  recorder: InputRecorder;
+  /** Keyboard focus of Pixi containers, see {@link usePixiFocus} */
+  focusManager: FocusManager;
+  /** DOM mirror of accessible Pixi and Three objects for screen readers */
+  accessibilityTree: AccessibilityTree;
+  /** Pinch, rotate, pan and long press, see {@link FederatedGestureEvent} */
+  gestures: GestureRecognizer;
+  /** Drags of Pixi containers between layers, see {@link usePixiDrag} */
+  pixiDrag: PixiDragController;
+  graph: RenderGraph;
+  /** Whether a canvas view renders offline, see {@link CanvasViewHandle.renderOffline} */
+  offlineRendering: RefObject<boolean>;
+  /** Scenes shared with {@link ThreeSceneView}s */
+  threeScenes: ThreeSceneRegistry;
   threeSceneTunnel: ReturnType<typeof tunnel>;
   pixiTextureTunnel: ReturnType<typeof tunnel>;
+  /** DOM content of {@link DomAnchor} components */
+  domTunnel: ReturnType<typeof tunnel>;
 }
 
 /**
@@ -31,3 +66,138 @@ export function useRenderContext() {
   }
   return context;
 }
+
+/**
+ * Hook for the graphics backend shared by all canvas views.
+ *
+ * @category hook
+ * @returns The active backend, or null before the renderer is initialized
+ * @throws If called outside of a {@link RenderContext}
+ */
+export function useRenderBackend(): RenderBackend | null {
+  return useRenderContext().backend;
+}
+
+/**
+ * Hook for controlling the time shared by all canvas views.
+ *
+ * Drives the delta of Pixi `useTick` callbacks and
+ * React Three Fiber `useFrame` callbacks together.
+ *
+ * @category hook
+ * @returns The clock controls, re-rendering when paused or time scale change
+ * @throws If called outside of a {@link RenderContext}
+ * @example
+ * ```tsx
+ * const clock = useRenderClock();
+ * return (
+ *   <button onClick={clock.paused ? clock.resume : clock.pause}>
+ *     {clock.paused ? "Play" : "Pause"}
+ *   </button>
+ * );
+ * ```
+ */
+export function useRenderClock(): RenderClockControls {
+  const { clock } = useRenderContext();
+  const { paused, timeScale } = useSyncExternalStore(
+    clock.subscribe,
+    clock.getSnapshot,
+  );
+  return {
+    paused,
+    timeScale,
+    getTime: () => clock.getTime() * 0.001,
+    pause: clock.pause,
+    resume: clock.resume,
+    setTimeScale: clock.setTimeScale,
+    step: clock.step,
+    seek: clock.seek,
+  };
+}
+
+/**
+ * Hook for recording the input of every {@link CanvasView} as a JSON trace
+ * and replaying it, e.g. to attach a reproduction to a bug report or to
+ * drive a regression test.
+ *
+ * Each event stores its viewport point, timing and the routing result in
+ * every nested layer. Replay dispatches the events on the same canvas views
+ * through the Pixi and React Three Fiber event routing, and returns the new
+ * routing result for comparison. Pausing the {@link useRenderClock | clock}
+ * while recording and replaying keeps animated content in the same place.
+ *
+ * @category hook
+ * @returns The recorder controls, re-rendering when recording starts or stops
+ * @throws If called outside of a {@link RenderContext}
+ * @example
+ * ```tsx
+ * const recorder = useInputRecorder();
+ * const [trace, setTrace] = useState<InputTrace | null>(null);
+ * return recorder.recording ? (
+ *   <button onClick={() => setTrace(recorder.stop())}>Stop</button>
+ * ) : (
+ *   <>
+ *     <button onClick={recorder.start}>Record</button>
+ *     {trace && (
+ *       <button onClick={() => recorder.replay(trace)}>Replay</button>
+ *     )}
+ *   </>
+ * );
+ * ```
+ */
+export function useInputRecorder(): InputRecorderControls {
+  const { recorder } = useRenderContext();
+  const recording = useSyncExternalStore(
+    recorder.subscribe,
+    recorder.getSnapshot,
+  );
+  return {
+    recording,
+    start: recorder.start,
+    stop: recorder.stop,
+    replay: recorder.replay,
+  };
+}
+
+/**
+ * Hook for the keyboard focus of Pixi containers in every {@link CanvasView}
+ * and {@link PixiTexture}.
+ *
+ * Clicking a container with `focusable` set focuses it, and Tab and Shift+Tab
+ * move through focusable containers in `tabIndex` order, flat canvas views
+ * before textures on meshes. The focused container receives `keydown`,
+ * `keyup` and `input` as {@link FederatedKeyboardEvent} and
+ * {@link FederatedInputEvent}, bubbling to its parents, and `focus`, `blur`,
+ * `focusin` and `focusout` when focus changes. Preventing the default of a
+ * Tab `keydown` keeps focus in place.
+ *
+ * @category hook
+ * @returns The focus state, re-rendering when focus changes
+ * @throws If called outside of a {@link RenderContext}
+ * @example
+ * ```tsx
+ * const ref = useRef<Text>(null!);
+ * useEffect(() => {
+ *   const text = ref.current;
+ *   text.on("keydown", (event: FederatedKeyboardEvent) => {
+ *     if (event.key === "Backspace") text.text = text.text.slice(0, -1);
+ *   });
+ *   text.on("input", (event: FederatedInputEvent) => {
+ *     text.text += event.text ?? "";
+ *   });
+ * }, []);
+ * return <pixiText ref={ref} text="" eventMode="static" focusable />;
+ * ```
+ */
+export function usePixiFocus(): PixiFocusControls {
+  const { focusManager } = useRenderContext();
+  const focused = useSyncExternalStore(
+    focusManager.subscribe,
+    focusManager.getSnapshot,
+  );
+  return {
+    focused,
+    focus: focusManager.focus,
+    blur: () => focusManager.focus(null),
+  };
+}
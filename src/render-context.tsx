@@ -1,13 +1,36 @@
 import { Application } from "@pixi/react";
-import type { Application as ApplicationType } from "pixi.js";
-import { type ReactNode, useRef, useState } from "react";
+import {
+  type AccessibilitySystemOptions,
+  type Application as ApplicationType,
+  type Ticker,
+  UPDATE_PRIORITY,
+} from "pixi.js";
+import { type ReactNode, useEffect, useRef, useState } from "react";
 import tunnel from "tunnel-rat";
 
+import { createAccessibilityTree } from "./accessibility-tree";
+import { createFocusManager } from "./focus-manager";
+import { createGestureRecognizer } from "./gestures";
+import { createInputRecorder } from "./input-recorder";
+import { createPixiDragController } from "./pixi-drag";
 import { PixiSyntheticEventSystem } from "./pixi-synthetic-event-system";
 import { PixiTextureRenderer } from "./pixi-texture";
+import { getRenderBackend, type RenderBackend } from "./render-backend";
+import { createRenderClock } from "./render-clock";
 import { RenderContextValue } from "./render-context-hooks";
+import {
+  createRenderGraph,
+  type RenderGraphCycleHandler,
+} from "./render-graph";
 import { ThreeRoot, type ThreeRootBaseProps } from "./three-root";
 import { ThreeSceneRenderer } from "./three-scene";
+import { createThreeSceneRegistry } from "./three-scene-registry";
+
+// The accessibility tree mirrors accessible objects instead of the Pixi
+// accessibility system, whose elements would be placed over the hidden canvas
+const pixiAccessibilityOptions: AccessibilitySystemOptions = {
+  accessibilityOptions: { activateOnTab: false },
+};
 
 /**
  * See {@link RenderContext}.
@@ -17,6 +40,17 @@ import { ThreeSceneRenderer } from "./three-scene";
  */
 export interface RenderContextProps extends ThreeRootBaseProps {
   children?: ReactNode;
+  /**
+   * Preferred graphics backend, defaults to "webgpu".
+   * Falls back to WebGL2 when WebGPU is unavailable.
+   */
+  preference?: RenderBackend;
+  /**
+   * Called when canvas views, scenes or textures depend on each other,
+   * defaults to a console warning. The cycle renders with one frame of delay.
+   * Intended loops should enable `feedback` on the texture instead.
+   */
+  onRenderGraphCycle?: RenderGraphCycleHandler;
 }
 
 /**
@@ -48,24 +82,90 @@ export function RenderContext({
   threeRendererParameters,
   onCreated,
   onPointerMissed,
+  preference = "webgpu",
+  onRenderGraphCycle,
 }: RenderContextProps) {
   const eventContainer = useRef<HTMLDivElement>(null!);
+  const focusProxy = useRef<HTMLTextAreaElement>(null!);
+  const accessibilityRoot = useRef<HTMLDivElement>(null!);
+  const dragGhostRoot = useRef<HTMLDivElement>(null!);
 
   const [pixiEvents, setPixiEvents] = useState<PixiSyntheticEventSystem | null>(
     null,
   );
+  const [backend, setBackend] = useState<RenderBackend | null>(null);
+  const [clock] = useState(createRenderClock);
+  const [recorder] = useState(() => createInputRecorder(clock));
+  const [graph] = useState(createRenderGraph);
+  const [threeScenes] = useState(createThreeSceneRegistry);
+  const offlineRendering = useRef(false);
+  const [focusManager] = useState(createFocusManager);
+
+  const [accessibilityTree] = useState(() =>
+    createAccessibilityTree(focusManager),
+  );
+
+  const [gestures] = useState(createGestureRecognizer);
+  const [pixiDrag] = useState(createPixiDragController);
+
+  useEffect(() => focusManager.connect(focusProxy.current), [focusManager]);
+  useEffect(() => gestures.connect(), [gestures]);
+  useEffect(() => pixiDrag.connect(dragGhostRoot.current), [pixiDrag]);
+  useEffect(
+    () => accessibilityTree.connect(accessibilityRoot.current),
+    [accessibilityTree],
+  );
+
+  useEffect(() => {
+    graph.setCycleHandler(onRenderGraphCycle);
+  }, [graph, onRenderGraphCycle]);
+
+  const pixiApp = useRef<ApplicationType | null>(null);
+
+  /** Removes the ticker listeners of the previous application */
+  function removeTickerListeners() {
+    // Null once the application is destroyed
+    const ticker = pixiApp.current?.ticker as Ticker | null | undefined;
+    pixiApp.current = null;
+    if (!ticker) {
+      return;
+    }
+    ticker.remove(clock.tick);
+    ticker.remove(graph.render);
+    ticker.remove(accessibilityTree.update);
+    ticker.remove(focusManager.update);
+  }
 
   function setPixiApplication(app: ApplicationType | null) {
+    if (app === pixiApp.current) {
+      return;
+    }
+    removeTickerListeners();
+    pixiApp.current = app;
+    recorder.setTicker(app?.ticker ?? null);
     if (!app) {
       setPixiEvents(null);
+      setBackend(null);
     } else {
       setPixiEvents(new PixiSyntheticEventSystem(app.renderer));
+      setBackend(getRenderBackend(app.renderer));
+      app.ticker.add(clock.tick, undefined, UPDATE_PRIORITY.HIGH);
+      // Render after useTick and useFrame callbacks have updated the scene
+      app.ticker.add(graph.render, undefined, UPDATE_PRIORITY.UTILITY);
+      // Mirror accessible objects where they were rendered
+      app.ticker.add(
+        accessibilityTree.update,
+        undefined,
+        UPDATE_PRIORITY.UTILITY - 1,
+      );
+      app.ticker.add(focusManager.update, undefined, UPDATE_PRIORITY.LOW);
     }
   }
 
   const [canvasViewTunnel] = useState(tunnel());
   const [threeSceneTunnel] = useState(tunnel());
   const [pixiTextureTunnel] = useState(tunnel());
+  const [domTunnel] = useState(tunnel());
 
   return (
     <div ref={eventContainer} className="contents">
@@ -74,16 +174,28 @@ export function RenderContext({
           tunnel: canvasViewTunnel,
           eventContainer,
           pixiEvents,
+          backend,
+          clock,
+          recorder,
+          focusManager,
+          accessibilityTree,
+          gestures,
+          pixiDrag,
+          graph,
+          offlineRendering,
+          threeScenes,
           threeSceneTunnel,
           pixiTextureTunnel,
+          domTunnel,
         }}
       >
         <Application
           className="hidden"
           width={1}
           height={1}
-          preference="webgpu"
+          preference={preference}
           resolution={2}
+          {...pixiAccessibilityOptions}
           onInit={(app) => {
             setPixiApplication(app);
           }}
@@ -102,6 +214,40 @@ export function RenderContext({
           <PixiTextureRenderer />
         </Application>
         {children}
+        <domTunnel.Out />
+        <div
+          ref={accessibilityRoot}
+          style={{ opacity: 0, pointerEvents: "none" }}
+        />
+        <div
+          ref={dragGhostRoot}
+          style={{
+            position: "fixed",
+            top: 0,
+            left: 0,
+            pointerEvents: "none",
+            zIndex: 2147483647,
+          }}
+        />
+        {/* Tab stop and accessible name are set by the focus manager */}
+        <textarea
+          ref={focusProxy}
+          tabIndex={-1}
+          aria-hidden
+          autoComplete="off"
+          autoCapitalize="off"
+          spellCheck={false}
+          style={{
+            position: "fixed",
+            top: 0,
+            left: 0,
+            width: 1,
+            height: 1,
+            opacity: 0,
+            resize: "none",
+            pointerEvents: "none",
+          }}
+        />
       </RenderContextValue>
     </div>
   );
@@ -0,0 +1,282 @@
+import { type RefObject } from "react";
+
+/**
+ * A canvas view, scene or texture in the render graph.
+ * @internal
+ */
+export interface RenderGraphNode {
+  /** Shown in cycle reports */
+  label: string;
+}
+
+/** @internal */
+export interface RenderGraphEntry {
+  /** Nearest enclosing node, which samples the output of this node */
+  parent: RenderGraphNode | null;
+  /** Orders independent nodes, lower renders first */
+  priority: number;
+  /** Object that consumers reference to depend on this node, e.g. a TextureNode */
+  output?: RefObject<object | null>;
+  /**
+   * Recursion depth of a double-buffered node. Its producers may depend on
+   * it, they sample the previous frame and the loop renders this many times.
+   */
+  feedback?: number;
+}
+
+/**
+ * Called with the labels of a dependency cycle, producers first.
+ *
+ * @category component
+ * @inline
+ */
+export type RenderGraphCycleHandler = (cycle: string[]) => void;
+
+/**
+ * Renders a node, called with the index of the pass and the number of
+ * passes of the node in this frame, more than one in feedback loops.
+ * @internal
+ */
+export type RenderGraphRender = (pass: number, passes: number) => void;
+
+/** @internal */
+export interface RenderGraph {
+  /**
+   * Adds a node to the graph.
+   * @returns A function that removes the node
+   */
+  add: (node: RenderGraphNode, entry: RenderGraphEntry) => () => void;
+  /**
+   * Sets the function that renders a node.
+   * @returns A function that unsets it
+   */
+  setRender: (node: RenderGraphNode, render: RenderGraphRender) => () => void;
+  /**
+   * Makes a node render after the node whose output is referenced.
+   * @returns A function that removes the dependency
+   */
+  addDependency: (
+    consumer: RenderGraphNode,
+    output: RefObject<object | null>,
+  ) => () => void;
+  setCycleHandler: (handler: RenderGraphCycleHandler | undefined) => void;
+  /**
+   * Sorts nodes so that producers come before their consumers.
+   * Feedback loops are repeated by their recursion depth.
+   */
+  getOrder: () => RenderGraphNode[];
+  /** Ticker listener that renders nodes in order */
+  render: () => void;
+}
+
+function warnCycle(cycle: string[]) {
+  console.warn(
+    `Render graph cycle, some content will be a frame late: ${[...cycle, cycle[0]].join(" -> ")}`,
+  );
+}
+
+/**
+ * Creates the render graph for a {@link RenderContext}.
+ *
+ * Nodes are nested by the canvas tree, e.g. a {@link PixiTexture} inside a
+ * {@link ThreeScene} inside a {@link CanvasView}, and render innermost first.
+ * Outputs referenced elsewhere in the tree add edges with
+ * {@link useRenderDependency} and {@link useFeedbackTexture}. The graph is
+ * sorted every frame, since refs and nesting change without notice.
+ *
+ * @internal
+ * @returns The render graph
+ */
+export function createRenderGraph(): RenderGraph {
+  const entries = new Map<RenderGraphNode, RenderGraphEntry>();
+  const renders = new Map<RenderGraphNode, RenderGraphRender>();
+  const dependencies = new Map<
+    RenderGraphNode,
+    Set<RefObject<object | null>>
+  >();
+  let onCycle: RenderGraphCycleHandler = warnCycle;
+  let reportedCycle: string | null = null;
+
+  /** Whether node is a transitive producer of consumer, or consumer itself */
+  function isProducer(
+    node: RenderGraphNode,
+    consumer: RenderGraphNode,
+    producers: Map<RenderGraphNode, Set<RenderGraphNode>>,
+  ) {
+    const visited = new Set<RenderGraphNode>();
+    const stack = [consumer];
+    while (stack.length > 0) {
+      const next = stack.pop()!;
+      if (next === node) {
+        return true;
+      }
+      if (!visited.has(next)) {
+        visited.add(next);
+        stack.push(...producers.get(next)!);
+      }
+    }
+    return false;
+  }
+
+  function getProducers() {
+    const outputs = new Map<object, RenderGraphNode>();
+    const producers = new Map<RenderGraphNode, Set<RenderGraphNode>>();
+    // Feedback nodes mapped to the producers that sample their previous frame
+    const feedback = new Map<RenderGraphNode, RenderGraphNode[]>();
+    entries.forEach(({ output }, node) => {
+      if (output?.current) {
+        outputs.set(output.current, node);
+      }
+      producers.set(node, new Set());
+    });
+    entries.forEach(({ parent }, node) => {
+      if (parent && entries.has(parent)) {
+        producers.get(parent)!.add(node);
+      }
+    });
+    const feedbackEdges: [RenderGraphNode, RenderGraphNode][] = [];
+    dependencies.forEach((refs, consumer) => {
+      refs.forEach((ref) => {
+        const producer = ref.current && outputs.get(ref.current);
+        if (!producer || !entries.has(consumer)) {
+          return;
+        }
+        if (entries.get(producer)!.feedback) {
+          feedbackEdges.push([consumer, producer]);
+        } else {
+          producers.get(consumer)!.add(producer);
+        }
+      });
+    });
+    feedbackEdges.forEach(([consumer, producer]) => {
+      if (isProducer(consumer, producer, producers)) {
+        feedback.set(producer, [...(feedback.get(producer) ?? []), consumer]);
+      } else {
+        producers.get(consumer)!.add(producer);
+      }
+    });
+    return { producers, feedback };
+  }
+
+  /** Nodes on the paths from the consumers of a feedback node back to it */
+  function getFeedbackLoop(
+    node: RenderGraphNode,
+    consumers: RenderGraphNode[],
+    producers: Map<RenderGraphNode, Set<RenderGraphNode>>,
+  ) {
+    const loop = new Set<RenderGraphNode>();
+    entries.forEach((_, x) => {
+      if (
+        x !== node &&
+        isProducer(x, node, producers) &&
+        consumers.some((consumer) => isProducer(consumer, x, producers))
+      ) {
+        loop.add(x);
+      }
+    });
+    return loop;
+  }
+
+  function findCycle(
+    pending: Set<RenderGraphNode>,
+    producers: Map<RenderGraphNode, Set<RenderGraphNode>>,
+  ) {
+    // Every pending node waits on a pending producer, so walking
+    // producers must revisit a node
+    const path: RenderGraphNode[] = [];
+    let node = pending.values().next().value!;
+    while (!path.includes(node)) {
+      path.push(node);
+      node = [...producers.get(node)!].find((x) => pending.has(x))!;
+    }
+    return path.slice(path.indexOf(node)).reverse();
+  }
+
+  function byPriority(a: RenderGraphNode, b: RenderGraphNode) {
+    return entries.get(a)!.priority - entries.get(b)!.priority;
+  }
+
+  function getOrder() {
+    const { producers, feedback } = getProducers();
+    const pending = new Set(entries.keys());
+    const order: RenderGraphNode[] = [];
+    const cycles: string[][] = [];
+
+    while (pending.size > 0) {
+      const ready = [...pending].filter((node) =>
+        [...producers.get(node)!].every((x) => !pending.has(x)),
+      );
+      if (ready.length === 0) {
+        // Break the cycle, the node rendered early sees last frame's content
+        const cycle = findCycle(pending, producers);
+        cycles.push(cycle.map((node) => node.label));
+        ready.push(...cycle);
+      }
+      const next = ready.sort(byPriority)[0];
+      pending.delete(next);
+      order.push(next);
+    }
+
+    const cycleKey = cycles.length > 0 ? JSON.stringify(cycles) : null;
+    if (cycleKey !== reportedCycle) {
+      reportedCycle = cycleKey;
+      cycles.forEach((cycle) => onCycle(cycle));
+    }
+
+    return order.flatMap((node) => {
+      const consumers = feedback.get(node);
+      const depth = entries.get(node)!.feedback ?? 1;
+      if (!consumers || depth <= 1) {
+        return [node];
+      }
+      // Render the loop again for each level of recursion
+      const loop = getFeedbackLoop(node, consumers, producers);
+      const iteration = [...order.filter((x) => loop.has(x)), node];
+      return [
+        node,
+        ...Array.from({ length: depth - 1 }, () => iteration).flat(),
+      ];
+    });
+  }
+
+  return {
+    add(node, entry) {
+      entries.set(node, entry);
+      return () => {
+        entries.delete(node);
+      };
+    },
+    setRender(node, render) {
+      renders.set(node, render);
+      return () => {
+        renders.delete(node);
+      };
+    },
+    addDependency(consumer, output) {
+      const refs = dependencies.get(consumer) ?? new Set();
+      dependencies.set(consumer, refs);
+      refs.add(output);
+      return () => {
+        refs.delete(output);
+        if (refs.size === 0) {
+          dependencies.delete(consumer);
+        }
+      };
+    },
+    setCycleHandler(handler) {
+      onCycle = handler ?? warnCycle;
+    },
+    getOrder,
+    render() {
+      const order = getOrder();
+      const passes = new Map<RenderGraphNode, number>();
+      order.forEach((node) => passes.set(node, (passes.get(node) ?? 0) + 1));
+      const rendered = new Map<RenderGraphNode, number>();
+      order.forEach((node) => {
+        const pass = rendered.get(node) ?? 0;
+        rendered.set(node, pass + 1);
+        renders.get(node)?.(pass, passes.get(node)!);
+      });
+    },
+  };
+}
@@ -0,0 +1,300 @@
+import {
+  type Container,
+  Filter,
+  type FilterOptions,
+  type FilterSystem,
+  GlProgram,
+  GpuProgram,
+  Matrix,
+  type RenderSurface,
+  type Sprite,
+  Texture,
+  type TextureSource,
+  UniformGroup,
+} from "pixi.js";
+import { type Camera, Vector3 } from "three";
+
+const vertex = /* glsl */ `in vec2 aPosition;
+out vec2 vTextureCoord;
+out vec2 vDepthUv;
+
+uniform vec4 uInputSize;
+uniform vec4 uOutputFrame;
+uniform vec4 uOutputTexture;
+
+uniform mat3 uDepthMatrix;
+
+vec4 filterVertexPosition( void )
+{
+    vec2 position = aPosition * uOutputFrame.zw + uOutputFrame.xy;
+
+    position.x = position.x * (2.0 / uOutputTexture.x) - 1.0;
+    position.y = position.y * (2.0*uOutputTexture.z / uOutputTexture.y) - uOutputTexture.z;
+
+    return vec4(position, 0.0, 1.0);
+}
+
+vec2 filterTextureCoord( void )
+{
+    return aPosition * (uOutputFrame.zw * uInputSize.zw);
+}
+
+void main(void)
+{
+    gl_Position = filterVertexPosition();
+    vTextureCoord = filterTextureCoord();
+    vDepthUv = (uDepthMatrix * vec3(vTextureCoord, 1.0)).xy;
+}
+`;
+
+const fragment = /* glsl */ `in vec2 vTextureCoord;
+in vec2 vDepthUv;
+
+out vec4 finalColor;
+
+uniform sampler2D uTexture;
+uniform sampler2D uDepthTexture;
+
+uniform float uDepth;
+uniform float uFlipY;
+
+void main()
+{
+    vec4 color = texture(uTexture, vTextureCoord);
+    vec2 depthUv = vec2(vDepthUv.x, mix(vDepthUv.y, 1.0 - vDepthUv.y, uFlipY));
+    float sceneDepth = texture(uDepthTexture, depthUv).r;
+    bool isInside = all(greaterThanEqual(depthUv, vec2(0.0))) && all(lessThanEqual(depthUv, vec2(1.0)));
+    finalColor = isInside && sceneDepth < uDepth ? vec4(0.0) : color;
+}
+`;
+
+const source = /* wgsl */ `struct GlobalFilterUniforms {
+  uInputSize:vec4<f32>,
+  uInputPixel:vec4<f32>,
+  uInputClamp:vec4<f32>,
+  uOutputFrame:vec4<f32>,
+  uGlobalFrame:vec4<f32>,
+  uOutputTexture:vec4<f32>,
+};
+
+struct DepthUniforms {
+  uDepthMatrix:mat3x3<f32>,
+  uDepth:f32,
+  uFlipY:f32,
+};
+
+@group(0) @binding(0) var<uniform> gfu: GlobalFilterUniforms;
+@group(0) @binding(1) var uTexture: texture_2d<f32>;
+@group(0) @binding(2) var uSampler : sampler;
+
+@group(1) @binding(0) var<uniform> depthUniforms : DepthUniforms;
+@group(1) @binding(1) var uDepthTexture: texture_2d<f32>;
+@group(1) @binding(2) var uDepthSampler : sampler;
+
+struct VSOutput {
+    @builtin(position) position: vec4<f32>,
+    @location(0) uv : vec2<f32>,
+    @location(1) depthUv : vec2<f32>,
+  };
+
+fn filterVertexPosition(aPosition:vec2<f32>) -> vec4<f32>
+{
+    var position = aPosition * gfu.uOutputFrame.zw + gfu.uOutputFrame.xy;
+
+    position.x = position.x * (2.0 / gfu.uOutputTexture.x) - 1.0;
+    position.y = position.y * (2.0*gfu.uOutputTexture.z / gfu.uOutputTexture.y) - gfu.uOutputTexture.z;
+
+    return vec4(position, 0.0, 1.0);
+}
+
+fn filterTextureCoord( aPosition:vec2<f32> ) -> vec2<f32>
+{
+    return aPosition * (gfu.uOutputFrame.zw * gfu.uInputSize.zw);
+}
+
+@vertex
+fn mainVertex(
+  @location(0) aPosition : vec2<f32>,
+) -> VSOutput {
+  let uv = filterTextureCoord(aPosition);
+  return VSOutput(
+   filterVertexPosition(aPosition),
+   uv,
+   (depthUniforms.uDepthMatrix * vec3(uv, 1.0)).xy
+  );
+}
+
+@fragment
+fn mainFragment(
+  @location(0) uv: vec2<f32>,
+  @location(1) depthUv: vec2<f32>,
+) -> @location(0) vec4<f32> {
+    let color = textureSample(uTexture, uSampler, uv);
+    let flippedUv = vec2(depthUv.x, mix(depthUv.y, 1.0 - depthUv.y, depthUniforms.uFlipY));
+    let sceneDepth = textureSample(uDepthTexture, uDepthSampler, flippedUv).r;
+    let isInside = all(flippedUv >= vec2(0.0)) && all(flippedUv <= vec2(1.0));
+    return select(color, vec4(0.0), isInside && sceneDepth < depthUniforms.uDepth);
+}
+`;
+
+/**
+ * View depth of a {@link ThreeScene} with `depth` enabled.
+ * @internal
+ */
+export interface ThreeSceneDepth {
+  /** Distance from the camera plane in world units, red channel */
+  texture: Texture;
+  /** Sprite that shows the scene */
+  sprite: Sprite;
+  /** Camera of the last render */
+  getCamera: () => Camera | null;
+  /** Whether the texture is stored bottom-up */
+  flipY: boolean;
+}
+
+const sceneDepths = new WeakMap<Container, ThreeSceneDepth>();
+
+/**
+ * Makes the view depth of a {@link ThreeScene} available to
+ * {@link ThreeDepthFilter}.
+ *
+ * @internal
+ * @param scene - The ThreeScene container
+ * @param depth - The depth texture and sprite
+ * @returns A function that removes the depth
+ */
+export function addThreeSceneDepth(scene: Container, depth: ThreeSceneDepth) {
+  sceneDepths.set(scene, depth);
+  return () => {
+    if (sceneDepths.get(scene) === depth) {
+      sceneDepths.delete(scene);
+    }
+  };
+}
+
+/**
+ * Options of {@link ThreeDepthFilter}.
+ *
+ * @category component
+ * @expand
+ */
+export interface ThreeDepthFilterOptions extends FilterOptions {
+  /** The {@link ThreeScene} container to test against, see {@link ThreeDepthFilter.scene} */
+  scene?: Container | null;
+  /** See {@link ThreeDepthFilter.depth} */
+  depth?: number;
+  /** See {@link ThreeDepthFilter.anchor} */
+  anchor?: Vector3 | null;
+}
+
+const _view = new Vector3();
+
+/**
+ * Pixi filter that hides the parts of a container behind the 3D geometry of
+ * a {@link ThreeScene}, so 2D content can be interleaved with 3D content,
+ * e.g. a character walking behind a pillar.
+ *
+ * The scene must set `depth` and be in the same {@link CanvasView} or
+ * {@link PixiTexture}, and the filtered container should be in front of it.
+ * The container is tested at one depth, or at the depth of a world-space
+ * anchor such as the feet of the character.
+ *
+ * @category component
+ * @example
+ * ```tsx
+ * const sceneRef = useRef<Container>(null!);
+ * const [filter] = useState(() => new ThreeDepthFilter());
+ * useEffect(() => {
+ *   filter.scene = sceneRef.current;
+ *   filter.anchor = characterPosition;
+ * }, [filter, characterPosition]);
+ * return (
+ *   <>
+ *     <ThreeScene ref={sceneRef} depth>
+ *       <Pillars />
+ *     </ThreeScene>
+ *     <pixiSprite texture={character} filters={[filter]} />
+ *   </>
+ * );
+ * ```
+ */
+export class ThreeDepthFilter extends Filter {
+  /** The {@link ThreeScene} container whose geometry occludes */
+  scene: Container | null;
+  /** Distance of the container from the camera plane, in world units */
+  depth: number;
+  /** World position whose distance from the camera plane is used instead of `depth` */
+  anchor: Vector3 | null;
+
+  declare resources: {
+    depthUniforms: UniformGroup<{
+      uDepthMatrix: { value: Matrix; type: "mat3x3<f32>" };
+      uDepth: { value: number; type: "f32" };
+      uFlipY: { value: number; type: "f32" };
+    }>;
+    uDepthTexture: TextureSource;
+    uDepthSampler: TextureSource["style"];
+  };
+
+  constructor({
+    scene = null,
+    depth = 0,
+    anchor = null,
+    ...rest
+  }: ThreeDepthFilterOptions = {}) {
+    const depthUniforms = new UniformGroup({
+      uDepthMatrix: { value: new Matrix(), type: "mat3x3<f32>" },
+      uDepth: { value: 0, type: "f32" },
+      uFlipY: { value: 0, type: "f32" },
+    });
+    super({
+      ...rest,
+      gpuProgram: GpuProgram.from({
+        vertex: { source, entryPoint: "mainVertex" },
+        fragment: { source, entryPoint: "mainFragment" },
+      }),
+      glProgram: GlProgram.from({
+        vertex,
+        fragment,
+        name: "three-depth-filter",
+      }),
+      resources: {
+        depthUniforms,
+        uDepthTexture: Texture.WHITE.source,
+        uDepthSampler: Texture.WHITE.source.style,
+      },
+    });
+    this.scene = scene;
+    this.depth = depth;
+    this.anchor = anchor;
+  }
+
+  override apply(
+    filterManager: FilterSystem,
+    input: Texture,
+    output: RenderSurface,
+    clearMode: boolean,
+  ) {
+    const uniforms = this.resources.depthUniforms.uniforms;
+    const sceneDepth = this.scene && sceneDepths.get(this.scene);
+    const camera = sceneDepth?.getCamera();
+    if (sceneDepth && camera) {
+      filterManager.calculateSpriteMatrix(
+        uniforms.uDepthMatrix,
+        sceneDepth.sprite,
+      );
+      uniforms.uDepth = this.anchor
+        ? -_view.copy(this.anchor).applyMatrix4(camera.matrixWorldInverse).z
+        : this.depth;
+      uniforms.uFlipY = sceneDepth.flipY ? 1 : 0;
+      this.resources.uDepthTexture = sceneDepth.texture.source;
+      this.resources.uDepthSampler = sceneDepth.texture.source.style;
+    } else {
+      // Nothing occludes without a rendered scene
+      uniforms.uDepth = -Infinity;
+      this.resources.uDepthTexture = Texture.WHITE.source;
+      this.resources.uDepthSampler = Texture.WHITE.source.style;
+    }
+    filterManager.applyFilter(this, input, output, clearMode);
+  }
+}
@@ -1,4 +1,5 @@
-import { type RootState, useFrame, useThree } from "@react-three/fiber";
+import { useApplication } from "@pixi/react";
+import { type RootState, useThree } from "@react-three/fiber";
 import {
   type ReactNode,
   type Ref,
@@ -9,39 +10,177 @@ import {
   useRef,
 } from "react";
 import {
+  type Camera,
   DepthTexture,
   FloatType,
+  HalfFloatType,
   type PerspectiveCamera,
+  RedFormat,
   RenderTarget,
   type RenderTargetOptions,
-  type Texture,
 } from "three";
-import type WebGPUBackend from "three/src/renderers/webgpu/WebGPUBackend.js";
-import { type PostProcessing, type WebGPURenderer } from "three/webgpu";
+import {
+  mix,
+  orthographicDepthToViewZ,
+  perspectiveDepthToViewZ,
+  texture,
+  uniform,
+  vec4,
+} from "three/tsl";
+import {
+  MeshBasicNodeMaterial,
+  type PostProcessing,
+  QuadMesh,
+  type WebGPURenderer,
+} from "three/webgpu";
+
+import {
+  createGBufferMrt,
+  type GBufferOutput,
+  setGBufferAttachments,
+} from "./g-buffer";
+import { type GpuPicker } from "./gpu-picking";
+import { type PixelReadback } from "./pixel-readback";
+import {
+  getThreeNativeTexture,
+  type NativeTexture,
+  resetSharedState,
+} from "./render-backend";
+import { type RenderGraphNode } from "./render-graph";
+import {
+  fitCamera,
+  fitViewportCameras,
+  renderViewports,
+  type ThreeViewport,
+} from "./three-viewport";
+import { useRenderCallback } from "./use-render-node";
+
+function createRenderTarget(
+  width: number,
+  height: number,
+  options?: RenderTargetOptions,
+) {
+  const val = new RenderTarget(width, height, options);
+  if (options?.depthBuffer) {
+    val.depthTexture = new DepthTexture(width, height, FloatType);
+  }
+  return val;
+}
+
+/**
+ * Creates a pass that writes the view depth of a render target, the distance
+ * from the camera plane in world units, into a half float color target that
+ * Pixi can sample like any texture.
+ */
+function createViewDepthPass() {
+  const placeholder = new DepthTexture(1, 1);
+  const depthNode = texture(placeholder);
+  const near = uniform(0.1);
+  const far = uniform(1000);
+  const orthographic = uniform(0);
+  const material = new MeshBasicNodeMaterial();
+  material.colorNode = vec4(
+    mix(
+      perspectiveDepthToViewZ(depthNode.x, near, far),
+      orthographicDepthToViewZ(depthNode.x, near, far),
+      orthographic,
+    ).negate(),
+    0,
+    0,
+    1,
+  );
+  const quad = new QuadMesh(material);
+  const output = new RenderTarget(1, 1, {
+    type: HalfFloatType,
+    format: RedFormat,
+    depthBuffer: false,
+  });
+
+  return {
+    output,
+    render(gl: WebGPURenderer, renderTarget: RenderTarget, camera: Camera) {
+      if (!renderTarget.depthTexture) {
+        return;
+      }
+      const { near: cameraNear, far: cameraFar } = camera as PerspectiveCamera;
+      depthNode.value = renderTarget.depthTexture;
+      near.value = cameraNear;
+      far.value = cameraFar;
+      orthographic.value =
+        "isOrthographicCamera" in camera && camera.isOrthographicCamera ? 1 : 0;
+      if (
+        output.width !== renderTarget.width ||
+        output.height !== renderTarget.height
+      ) {
+        output.setSize(renderTarget.width, renderTarget.height);
+      }
+      gl.setRenderTarget(output);
+      quad.render(gl);
+    },
+    dispose() {
+      output.dispose();
+      material.dispose();
+      placeholder.dispose();
+    },
+  };
+}
 
 /** @internal */
 export interface PortalContentProps {
   ref?: Ref<RenderTarget>;
-  renderPriority: number;
+  /** Render graph node of the scene or texture */
+  renderNode: RenderGraphNode;
   width: number;
   height: number;
   resolution: number;
   renderTargetOptions?: RenderTargetOptions;
   children: ReactNode;
-  onTextureUpdate?: (x: GPUTexture) => unknown;
+  onTextureUpdate?: (
+    x: NativeTexture,
+    width: number,
+    height: number,
+  ) => unknown;
   postProcessing?: (x: RootState) => PostProcessing;
   /** Frameloop mode: "always" renders every frame, "demand" only renders when frameRequested is true */
   frameloop?: "always" | "demand";
   /** Function to check if a frame render is requested (for frameloop="demand") */
   isFrameRequested?: () => boolean;
-  /** Callback to clear the frame request after rendering */
-  signalFrame?: () => void;
+  /** Callback to clear the frame request after the last pass of a frame */
+  signalFrame?: (isLastPass?: boolean) => void;
+  /** Renders into a back buffer, so content can sample the previous frame */
+  feedback?: boolean;
+  /** Called when the front buffer changes in feedback mode */
+  onRenderTargetUpdate?: (renderTarget: RenderTarget) => unknown;
+  /** Regions rendered from their own cameras, ignored with `postProcessing`, see {@link ThreeViewport} */
+  viewports?: ThreeViewport[];
+  /** Renders the ID buffer after the color, see {@link PickingMode} */
+  picker?: GpuPicker;
+  /** Minimum milliseconds between ID buffer renders and color readbacks, defaults to 100 */
+  pickingInterval?: number;
+  /** Reads back the color after renders when a pixel was needed */
+  colorReadback?: PixelReadback;
+  /** Outputs rendered after the color, see {@link GBufferOutput} */
+  outputs?: GBufferOutput[];
+  /** Called after each render with each output of `outputs` */
+  onOutputTextureUpdate?: (
+    output: GBufferOutput,
+    x: NativeTexture,
+    width: number,
+    height: number,
+  ) => unknown;
+  /** Called after each render with the view depth, see {@link createViewDepthPass} */
+  onDepthTextureUpdate?: (
+    x: NativeTexture,
+    width: number,
+    height: number,
+    camera: Camera,
+  ) => unknown;
 }
 
 /** @internal */
 export function PortalContent({
   ref,
-  renderPriority,
+  renderNode,
   width,
   height,
   resolution,
@@ -52,60 +191,106 @@ export function PortalContent({
   frameloop = "always",
   isFrameRequested,
   signalFrame,
+  feedback = false,
+  onRenderTargetUpdate,
+  onDepthTextureUpdate,
+  outputs,
+  onOutputTextureUpdate,
+  viewports,
+  picker,
+  pickingInterval = 100,
+  colorReadback,
 }: PortalContentProps) {
+  const { app } = useApplication();
   const state = useThree();
-  const backendData = (
-    (state.gl as unknown as WebGPURenderer).backend as WebGPUBackend & {
-      data: WeakMap<Texture, { texture: GPUTexture }>;
-    }
-  ).data;
   const { camera, setSize, setDpr } = state;
 
-  const renderTarget = useRef(
-    (() => {
-      const val = new RenderTarget(
-        width * resolution,
-        height * resolution,
-        renderTargetOptions,
-      );
-      if (renderTargetOptions?.depthBuffer) {
-        val.depthTexture = new DepthTexture(
-          width * resolution,
-          height * resolution,
-          FloatType,
-        );
-      }
-      return val;
-    })(),
-  );
+  // Front buffer first, followed by the back buffer in feedback mode
+  const renderTargets = useRef([
+    createRenderTarget(
+      width * resolution,
+      height * resolution,
+      renderTargetOptions,
+    ),
+  ]);
 
-  useImperativeHandle(ref, () => renderTarget.current, []);
+  useImperativeHandle(ref, () => renderTargets.current[0], []);
 
   useEffect(() => {
-    const val = renderTarget.current;
-    return () => val.dispose();
+    const val = renderTargets.current;
+    return () => val.forEach((renderTarget) => renderTarget.dispose());
   }, []);
 
   useLayoutEffect(() => {
-    renderTarget.current.setSize(width * resolution, height * resolution);
-    if (renderTarget.current.depthTexture) {
-      renderTarget.current.depthTexture.dispose();
-      renderTarget.current.depthTexture = new DepthTexture(
-        width * resolution,
-        height * resolution,
-        FloatType,
+    const targets = renderTargets.current;
+    if (feedback && targets.length === 1) {
+      targets.push(
+        createRenderTarget(
+          targets[0].width,
+          targets[0].height,
+          renderTargetOptions,
+        ),
       );
+    } else if (!feedback && targets.length === 2) {
+      targets.pop()!.dispose();
     }
-    if (renderTargetOptions?.samples) {
-      renderTarget.current.samples = renderTargetOptions.samples;
+  }, [feedback, renderTargetOptions]);
+
+  const hasDepthOutput = !!onDepthTextureUpdate;
+  const viewDepthPass = useRef<ReturnType<typeof createViewDepthPass>>(null);
+
+  useLayoutEffect(() => {
+    if (!hasDepthOutput) {
+      return;
     }
-  }, [width, height, resolution, renderTargetOptions?.samples]);
+    renderTargets.current.forEach((renderTarget) => {
+      if (!renderTarget.depthTexture) {
+        renderTarget.depthTexture = new DepthTexture(
+          renderTarget.width,
+          renderTarget.height,
+          FloatType,
+        );
+      }
+    });
+    const pass = createViewDepthPass();
+    viewDepthPass.current = pass;
+    return () => {
+      pass.dispose();
+      viewDepthPass.current = null;
+    };
+  }, [hasDepthOutput, feedback]);
+
+  const outputsKey = outputs?.join() ?? "";
+  const gBufferMrt = useRef<ReturnType<typeof createGBufferMrt>>(null);
+
+  useLayoutEffect(() => {
+    const names = outputsKey ? (outputsKey.split(",") as GBufferOutput[]) : [];
+    renderTargets.current.forEach((renderTarget) =>
+      setGBufferAttachments(renderTarget, names),
+    );
+    gBufferMrt.current = createGBufferMrt(names);
+  }, [outputsKey, feedback]);
+
+  useLayoutEffect(() => {
+    renderTargets.current.forEach((renderTarget) => {
+      renderTarget.setSize(width * resolution, height * resolution);
+      if (renderTarget.depthTexture) {
+        renderTarget.depthTexture.dispose();
+        renderTarget.depthTexture = new DepthTexture(
+          width * resolution,
+          height * resolution,
+          FloatType,
+        );
+      }
+      if (renderTargetOptions?.samples) {
+        renderTarget.samples = renderTargetOptions.samples;
+      }
+    });
+  }, [width, height, resolution, renderTargetOptions?.samples, feedback]);
 
   const onResize = useEffectEvent(
     (width: number, height: number, resolution: number) => {
-      // eslint-disable-next-line react-hooks/immutability
-      (camera as PerspectiveCamera).aspect = width / height;
-      camera.updateProjectionMatrix();
+      fitCamera(camera, width, height);
       setSize(width, height);
       setDpr(resolution);
     },
@@ -113,12 +298,13 @@ export function PortalContent({
 
   useEffect(() => {
     onResize(width, height, resolution);
-  }, [width, height, resolution]);
+  }, [width, height, resolution, camera]);
 
   const postProcessor = postProcessing ? postProcessing(state) : null;
-  useFrame(() => {
+  useRenderCallback(renderNode, (pass, passes) => {
     if (frameloop === "always" || isFrameRequested?.()) {
       const gl = state.gl as unknown as WebGPURenderer;
+      resetSharedState(app.renderer, gl, "three");
       const oldAutoClear = gl.autoClear;
       const oldXrEnabled = gl.xr.enabled;
       const oldIsPresenting = gl.xr.isPresenting;
@@ -127,22 +313,94 @@ export function PortalContent({
       gl.autoClear = true;
       gl.xr.enabled = false;
       gl.xr.isPresenting = false;
-      gl.setRenderTarget(renderTarget.current);
+      const targets = renderTargets.current;
+      gl.setRenderTarget(targets[targets.length - 1]);
+      const renderScene = (sceneCamera: Camera) => {
+        if (gBufferMrt.current) {
+          const oldMrt = gl.getMRT();
+          gl.setMRT(gBufferMrt.current);
+          gl.render(state.scene, sceneCamera);
+          gl.setMRT(oldMrt);
+        } else {
+          gl.render(state.scene, sceneCamera);
+        }
+      };
       if (postProcessor) {
         postProcessor.render();
+      } else if (viewports?.length) {
+        fitViewportCameras(viewports, width, height);
+        renderViewports(
+          gl,
+          targets[targets.length - 1],
+          viewports,
+          renderScene,
+        );
       } else {
-        gl.render(state.scene, state.camera);
+        renderScene(state.camera);
+      }
+      if (targets.length > 1) {
+        // Swap, content sampling the front buffer now sees this frame
+        targets.reverse();
+        onRenderTargetUpdate?.(targets[0]);
+      }
+      const [renderTarget] = targets;
+      picker?.render(
+        gl,
+        state.camera,
+        renderTarget.width,
+        renderTarget.height,
+        pickingInterval,
+        viewports,
+      );
+      if (colorReadback?.isDue(pickingInterval)) {
+        colorReadback.read(gl, renderTarget);
+      }
+      const depthPass = viewDepthPass.current;
+      if (onDepthTextureUpdate && depthPass) {
+        depthPass.render(gl, renderTarget, state.camera);
+        const nativeTexture = getThreeNativeTexture(
+          gl,
+          depthPass.output.texture,
+        );
+        if (nativeTexture) {
+          onDepthTextureUpdate(
+            nativeTexture,
+            depthPass.output.width,
+            depthPass.output.height,
+            state.camera,
+          );
+        }
+      }
+      if (onOutputTextureUpdate) {
+        renderTarget.textures.slice(1).forEach((outputTexture) => {
+          const nativeTexture = getThreeNativeTexture(gl, outputTexture);
+          if (nativeTexture) {
+            onOutputTextureUpdate(
+              outputTexture.name as GBufferOutput,
+              nativeTexture,
+              renderTarget.width,
+              renderTarget.height,
+            );
+          }
+        });
       }
       if (onTextureUpdate) {
-        const textureData = backendData.get(renderTarget.current.texture)!;
-        onTextureUpdate(textureData.texture);
+        const nativeTexture = getThreeNativeTexture(gl, renderTarget.texture);
+        if (nativeTexture) {
+          onTextureUpdate(
+            nativeTexture,
+            renderTarget.width,
+            renderTarget.height,
+          );
+        }
       }
       gl.setRenderTarget(oldRenderTarget);
       gl.autoClear = oldAutoClear;
       gl.xr.enabled = oldXrEnabled;
       gl.xr.isPresenting = oldIsPresenting;
-      signalFrame?.();
+      resetSharedState(app.renderer, gl, "pixi");
+      signalFrame?.(pass === passes - 1);
     }
-  }, renderPriority);
+  });
   return <>{children}</>;
 }
@@ -17,8 +17,11 @@ import {
   useState,
 } from "react";
 import {
+  type Camera,
   Mesh,
   Object3D,
+  type OrthographicCamera,
+  type PerspectiveCamera,
   type Plane,
   Raycaster,
   type RenderTarget,
@@ -32,17 +35,29 @@ import { texture } from "three/tsl";
 import type { TextureNode } from "three/webgpu";
 import tunnel from "tunnel-rat";
 
+import {
+  AccessibilityLayerContext,
+  useAccessibilitySource,
+} from "./accessibility-tree";
 import {
   mapNdcToPixi as mapNdcToPixiUtil,
   mapNdcToUv,
   mapPixiToNdc as mapPixiToNdcUtil,
   mapThreeToNdc,
   mapUvToNdc,
+  projectRayToMeshPlaneIntersection,
   traceUvToThree,
   traceUvToThreeLocal,
 } from "./bijections";
 import { useViewport } from "./canvas-tree-context";
 import { CanvasTreeContext, useCanvasTreeStore } from "./canvas-tree-context";
+import { useCanvasView } from "./canvas-view-context";
+import {
+  FeedbackTextureContext,
+  getFeedbackDepth,
+} from "./feedback-texture-context";
+import { usePickLayer } from "./pick";
+import { useRenderContext } from "./render-context-hooks";
 import { useAttachedObject } from "./three-fiber";
 import { PortalContent } from "./three-portal-content";
 import {
@@ -50,7 +65,15 @@ import {
   ThreeSceneContext,
   useThreeSceneContext,
 } from "./three-scene-context";
+import {
+  findViewport,
+  mapViewportNdcToTexture,
+  type ThreeViewport,
+} from "./three-viewport";
+import { usePointerCaptures } from "./use-pointer-captures";
+import { useRenderNode } from "./use-render-node";
 import { useRenderSchedule } from "./use-render-schedule";
+import { computeVirtualRay, getVirtualRay } from "./virtual-pointer";
 
 /**
  * See {@link ThreeRenderTexture}.
@@ -81,7 +104,7 @@ export interface ThreeRenderTextureProps {
    * Optional {@link https://threejs.org/docs/#RenderTarget | RenderTarget} options
    */
   options?: RenderTargetOptions;
-  /** Optional render priority, defaults to 0 */
+  /** Optional render priority among independent scenes and textures, lower renders first, defaults to 0 */
   renderPriority?: number;
   /** Optional event priority, defaults to 0 */
   eventPriority?: number;
@@ -93,6 +116,16 @@ export interface ThreeRenderTextureProps {
   compute?: ComputeFunction;
   /** Optional FPS limit */
   fpsLimit?: number;
+  /**
+   * Optional feedback mode, defaults to false. Renders into a second buffer
+   * so content can sample the previous frame with {@link useFeedbackTexture}.
+   * A number sets the recursion depth, how often the loop renders per frame.
+   */
+  feedback?: boolean | number;
+  /** Optional camera of the texture in place of the default camera */
+  camera?: PerspectiveCamera | OrthographicCamera;
+  /** Optional regions rendered from their own cameras, see {@link ThreeViewport} */
+  viewports?: ThreeViewport[];
   /** Children will be rendered into a portal */
   children: ReactNode;
 }
@@ -136,6 +169,9 @@ export function ThreeRenderTexture({
   frameloop = "always",
   compute,
   fpsLimit,
+  feedback,
+  camera: cameraProp,
+  viewports,
   children,
 }: ThreeRenderTextureProps) {
   const size = useViewport();
@@ -153,7 +189,8 @@ export function ThreeRenderTexture({
   const parentThreeSceneContext = useThreeSceneContext();
   const { containerRef } = parentThreeSceneContext;
   const textureRef = useRef(texture(new Texture()));
-  const { camera } = useThree();
+  const { camera: parentCamera } = useThree();
+  const camera = cameraProp ?? parentCamera;
 
   const getAttachedObject = useAttachedObject(objectRef);
 
@@ -161,15 +198,20 @@ export function ThreeRenderTexture({
 
   const bounds = { width, height };
 
+  const _ndc = new Vector2();
+  const _textureNdc = new Vector2();
+
   function mapPixiToNdc(point: Point, out?: Vector2) {
-    return mapPixiToNdcUtil(point, bounds, out);
+    const result = mapPixiToNdcUtil(point, bounds, out);
+    findViewport(viewports, camera, result, result);
+    return result;
   }
 
   function mapNdcToPixi(ndc: Vector2, out?: Point) {
-    return mapNdcToPixiUtil(ndc, bounds, out);
+    mapViewportNdcToTexture(viewports, camera, ndc, _textureNdc);
+    return mapNdcToPixiUtil(_textureNdc, bounds, out);
   }
 
-  const _ndc = new Vector2();
   const _uv = new Vector2();
   const _threeParent = new Vector3();
   const raycaster = new Raycaster();
@@ -177,6 +219,7 @@ export function ThreeRenderTexture({
   function mapThreeToParentUv(vec3: Vector3, out?: Vector2) {
     // Project world vec3 through camera to NDC
     mapThreeToNdc(vec3, camera, _ndc);
+    mapViewportNdcToTexture(viewports, camera, _ndc, _ndc);
 
     // Map NDC to UV
     return mapNdcToUv(_ndc, out);
@@ -258,7 +301,7 @@ export function ThreeRenderTexture({
     );
     const uv = intersections[0]?.uv;
     if (uv) {
-      return mapUvToNdc(uv, out);
+      return mapUvToViewportNdc(uv, out);
     }
     return null;
   }
@@ -270,17 +313,24 @@ export function ThreeRenderTexture({
     );
     const uv = intersections[0]?.uv;
     if (uv) {
-      return mapUvToNdc(uv, out);
+      return mapUvToViewportNdc(uv, out);
     }
     return null;
   }
 
-  function raycastNdc<T extends Object3D | Plane | Object3D[] = Object3D>(
+  function mapUvToViewportNdc(uv: Vector2, out?: Vector2) {
+    const result = mapUvToNdc(uv, out);
+    findViewport(viewports, camera, result, result);
+    return result;
+  }
+
+  function raycastCamera<T extends Object3D | Plane | Object3D[] = Object3D>(
     ndc: Vector2,
+    rayCamera: Camera,
     target?: T,
     recursive?: boolean,
   ): RaycastResult<T>[] {
-    raycaster.setFromCamera(ndc, camera);
+    raycaster.setFromCamera(ndc, rayCamera);
     if (target) {
       if (Array.isArray(target)) {
         return raycaster.intersectObjects(
@@ -313,13 +363,40 @@ export function ThreeRenderTexture({
     ) as RaycastResult<T>[];
   }
 
+  function raycastNdc<T extends Object3D | Plane | Object3D[] = Object3D>(
+    ndc: Vector2,
+    target?: T,
+    recursive?: boolean,
+  ): RaycastResult<T>[] {
+    return raycastCamera(ndc, camera, target, recursive);
+  }
+
+  /** Raycasts from a UV through the camera of the viewport under it */
+  function raycastUv<T extends Object3D | Plane | Object3D[] = Object3D>(
+    uv: Vector2 | undefined,
+    target?: T,
+    recursive?: boolean,
+  ): RaycastResult<T>[] {
+    if (!uv) {
+      return [];
+    }
+    mapUvToNdc(uv, _ndc);
+    const viewportCamera = findViewport(viewports, camera, _ndc, _ndc);
+    return viewportCamera
+      ? raycastCamera(_ndc, viewportCamera, target, recursive)
+      : [];
+  }
+
   function raycastClient<T extends Object3D | Plane | Object3D[] = Object3D>(
     client: Point | { clientX: number; clientY: number },
     target?: T,
     recursive?: boolean,
   ): RaycastResult<T>[] {
-    mapClientToNdc(client, _ndc);
-    return raycastNdc(_ndc, target, recursive);
+    const [intersection] = parentThreeSceneContext.raycastClient(
+      client,
+      getAttachedObject(),
+    );
+    return raycastUv(intersection?.uv, target, recursive);
   }
 
   function raycastViewport<T extends Object3D | Plane | Object3D[] = Object3D>(
@@ -327,51 +404,123 @@ export function ThreeRenderTexture({
     target?: T,
     recursive?: boolean,
   ): RaycastResult<T>[] {
-    mapViewportToNdc(viewport, _ndc);
-    return raycastNdc(_ndc, target, recursive);
+    const [intersection] = parentThreeSceneContext.raycastViewport(
+      viewport,
+      getAttachedObject(),
+    );
+    return raycastUv(intersection?.uv, target, recursive);
   }
 
+  const { canvasRef } = useCanvasView();
+  const { accessibilityTree } = useRenderContext();
+
+  const accessibilityLayer = useAccessibilitySource(accessibilityTree, {
+    type: "three",
+    getScene: () => scene,
+    getCamera: () => camera,
+    mapThreeToClient: (world, out) => mapThreeToClient(world, out)[0] ?? null,
+    getCanvas: () => canvasRef.current,
+  });
+
+  usePickLayer({
+    getOwner: getAttachedObject,
+    pick: (ownerHit) => {
+      const uv = ownerHit.type === "three" ? ownerHit.intersection.uv : null;
+      if (!uv) {
+        return null;
+      }
+      const ndc = mapUvToNdc(uv);
+      const viewportCamera = findViewport(viewports, camera, ndc, ndc);
+      if (!viewportCamera) {
+        return null;
+      }
+      const [intersection] = raycastCamera(ndc, viewportCamera);
+      return intersection ? { type: "three", ndc, intersection } : null;
+    },
+  });
+
+  const { isPointerCaptured, capturePointer } = usePointerCaptures(
+    parentThreeSceneContext.capturePointer,
+  );
+
   function computeFn(event: DomEvent, state: RootState, previous?: RootState) {
+    const virtualRay = getVirtualRay(event);
+    if (virtualRay?.scene === state.scene) {
+      return computeVirtualRay(virtualRay, state);
+    }
     if (!previous) {
       return false;
     }
+    const pointerId = (event as PointerEvent).pointerId;
+    const isCaptured =
+      (pointerId !== undefined && state.internal.capturedMap.has(pointerId)) ||
+      isPointerCaptured(pointerId);
     const status = previous.events.compute?.(
       event,
       previous,
       previous.previousRoot?.getState(),
     ) as void | false;
-    if (status === false) {
+    if (status === false && !isCaptured) {
       return false;
     }
     const parent = getAttachedObject();
     if (!parent) {
       return false;
     }
-    const [intersection] = previous.raycaster.intersectObject(parent) ?? [];
-    if (!intersection) {
-      return false;
+    let uv = previous.raycaster.intersectObject(parent)[0]?.uv;
+    if (!uv && isCaptured && parent instanceof Mesh) {
+      // Extrapolate captured pointers that leave the mesh through its plane
+      uv = projectRayToMeshPlaneIntersection(
+        previous.raycaster.ray,
+        parent,
+      )?.uv;
     }
-    const uv = intersection.uv;
     if (!uv) {
       return false;
     }
     mapUvToNdc(uv, state.pointer);
-    state.raycaster.setFromCamera(state.pointer, state.camera);
+    const viewportCamera = findViewport(
+      viewports,
+      state.camera,
+      state.pointer,
+      state.pointer,
+    );
+    if (!viewportCamera) {
+      return false;
+    }
+    state.raycaster.setFromCamera(state.pointer, viewportCamera);
   }
 
   const sceneTunnel = tunnel();
 
+  const feedbackDepth = getFeedbackDepth(feedback);
+  const [feedbackSubscribers] = useState(() => new Set<() => void>());
+
+  function subscribe(callback: () => void) {
+    feedbackSubscribers.add(callback);
+    return () => {
+      feedbackSubscribers.delete(callback);
+    };
+  }
+
   const { isFrameRequested, invalidate, signalFrame } = useRenderSchedule({
     fpsLimit,
   });
+  const renderNode = useRenderNode({
+    label: "three-render-texture",
+    priority: renderPriority,
+    output: textureRef,
+    feedback: feedbackDepth,
+  });
 
   return (
     <>
-      <CanvasTreeContext value={{ store, invalidate }}>
+      <CanvasTreeContext value={{ store, invalidate, renderNode }}>
         <ThreeSceneContext
           value={{
             containerRef,
             sceneTunnel,
+            capturePointer,
             mapPixiToNdc,
             mapNdcToPixi,
             mapThreeToParentPixiLocal,
@@ -397,16 +546,32 @@ export function ThreeRenderTexture({
                   textureRef.current.value = renderTarget.texture;
                 }
               }}
-              renderPriority={renderPriority}
+              renderNode={renderNode}
               width={width}
               height={height}
               resolution={resolution}
               renderTargetOptions={options}
               frameloop={frameloop}
+              feedback={feedbackDepth > 0}
+              onRenderTargetUpdate={(renderTarget) => {
+                textureRef.current.value = renderTarget.texture;
+                feedbackSubscribers.forEach((callback) => callback());
+              }}
               isFrameRequested={isFrameRequested}
               signalFrame={signalFrame}
+              viewports={viewports}
             >
-              {children}
+              <FeedbackTextureContext
+                value={
+                  feedbackDepth > 0
+                    ? { output: textureRef, pixiTexture: null, subscribe }
+                    : null
+                }
+              >
+                <AccessibilityLayerContext value={accessibilityLayer}>
+                  {children}
+                </AccessibilityLayerContext>
+              </FeedbackTextureContext>
               <sceneTunnel.Out />
               {/* Without an element that receives pointer events state.pointer will always be 0/0 */}
               <group onPointerOver={() => null} />
@@ -419,6 +584,7 @@ export function ThreeRenderTexture({
                 priority: eventPriority,
               },
               size: { top: 0, left: 0, width, height },
+              ...(cameraProp && { camera: cameraProp }),
             },
           )}
         </ThreeSceneContext>
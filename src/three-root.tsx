@@ -9,7 +9,11 @@ import {
   type ThreeToJSXElements,
   unmountComponentAtNode,
 } from "@react-three/fiber";
-import { type WebGPURenderer as PixiWebGPURenderer } from "pixi.js";
+import {
+  UPDATE_PRIORITY,
+  type WebGLRenderer as PixiWebGLRenderer,
+  type WebGPURenderer as PixiWebGPURenderer,
+} from "pixi.js";
 import {
   type PropsWithChildren,
   type RefObject,
@@ -21,6 +25,8 @@ import { type WebGPURendererParameters } from "three/src/renderers/webgpu/WebGPU
 import { WebGPURenderer } from "three/webgpu";
 import * as THREE from "three/webgpu";
 
+import { getRenderBackend, resetSharedState } from "./render-backend";
+import { useRenderContext } from "./render-context-hooks";
 import { useBridge } from "./use-bridge";
 
 extend(THREE as unknown as ConstructorRepresentation);
@@ -64,6 +70,7 @@ export function ThreeRoot({
 }: ThreeRootProps) {
   const Bridge = useBridge();
   const pixi = useApplication();
+  const { clock } = useRenderContext();
   const threeRootRef = useRef<ReconcilerRoot<HTMLCanvasElement>>(null);
   const [cleanupFn, setCleanupFn] = useState<(() => void) | null>(null);
 
@@ -75,13 +82,22 @@ export function ThreeRoot({
     async function initThree() {
       const canvas = pixi.app.canvas;
 
-      const pixiRenderer = pixi.app.renderer as PixiWebGPURenderer;
-
-      const renderer = new WebGPURenderer({
-        canvas: canvas,
-        device: pixiRenderer.device.gpu.device,
-        ...threeRendererParameters,
-      });
+      const renderer =
+        getRenderBackend(pixi.app.renderer) === "webgpu"
+          ? new WebGPURenderer({
+              canvas: canvas,
+              device: (pixi.app.renderer as PixiWebGPURenderer).device.gpu
+                .device,
+              ...threeRendererParameters,
+            })
+          : new WebGPURenderer({
+              canvas: canvas,
+              // Share the Pixi context so textures can be swapped between renderers
+              context: (pixi.app.renderer as PixiWebGLRenderer)
+                .gl as unknown as GPUCanvasContext,
+              forceWebGL: true,
+              ...threeRendererParameters,
+            });
 
       renderer.setClearColor(0, 0);
 
@@ -116,23 +132,29 @@ export function ThreeRoot({
         threeState.events.connect?.(eventSource.current);
       }
 
-      function render() {
-        threeState.advance(pixi.app.ticker.lastTime * 0.001);
+      let seekCount = clock.getSeekCount();
+      threeState.clock.elapsedTime = clock.getTime() * 0.001;
+
+      // Runs useFrame callbacks, scenes and textures render later in the
+      // render graph
+      function update() {
+        const time = clock.getTime() * 0.001;
+        if (seekCount !== clock.getSeekCount()) {
+          // Jump without a delta
+          seekCount = clock.getSeekCount();
+          threeState.clock.elapsedTime = time;
+        }
+        resetSharedState(pixi.app.renderer, renderer, "three");
+        threeState.advance(time);
+        resetSharedState(pixi.app.renderer, renderer, "pixi");
       }
 
-      const { prerender } = pixi.app.renderer.runners;
-
-      const runner = { prerender: render };
-
-      prerender.add(runner);
+      const { ticker } = pixi.app;
+      ticker.add(update, undefined, UPDATE_PRIORITY.LOW);
 
       setCleanupFn(() => () => {
         unmountComponentAtNode(canvas);
-        try {
-          prerender.remove(runner);
-        } catch {
-          /* ... */
-        }
+        ticker.remove(update);
       });
     }
 
@@ -140,6 +162,7 @@ export function ThreeRoot({
   }, [
     Bridge,
     children,
+    clock,
     eventSource,
     threeRendererParameters,
     onCreated,
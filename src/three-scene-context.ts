@@ -79,6 +79,8 @@ export interface ThreeSceneContextValue {
   containerRef: RefObject<Container>;
   /** @internal */
   sceneTunnel: ReturnType<typeof tunnel>;
+  /** @internal */
+  capturePointer: (pointerId: number) => () => void;
   /**
    * Maps a Pixi Point (in local sprite coordinates) to Three.js NDC coordinates (-1 to 1).
    * @param point - Pixi Point in local coordinates
@@ -0,0 +1,124 @@
+import { type DomEvent, type RootState } from "@react-three/fiber";
+import { type Container } from "pixi.js";
+import { type RefObject, useSyncExternalStore } from "react";
+import { type Scene } from "three";
+
+import { useRenderContext } from "./render-context-hooks";
+
+/**
+ * A {@link ThreeSceneView} of a shared scene.
+ * @internal
+ */
+export interface SharedThreeSceneView {
+  /**
+   * Points the raycaster of the scene through the view.
+   * @returns False if the event misses the view
+   */
+  compute: (event: DomEvent, state: RootState) => false | void;
+}
+
+/**
+ * Scene of a {@link ThreeScene} that {@link ThreeSceneView}s render.
+ * @internal
+ */
+export interface SharedThreeScene {
+  scene: Scene;
+  /** Views whose event computes are tried after the one of the scene */
+  views: Set<SharedThreeSceneView>;
+}
+
+/**
+ * Scenes of the {@link ThreeScene}s in a {@link RenderContext}, by container
+ * and id.
+ * @internal
+ */
+export interface ThreeSceneRegistry {
+  subscribe: (callback: () => void) => () => void;
+  /**
+   * Makes the scene of a {@link ThreeScene} available to
+   * {@link ThreeSceneView}s.
+   * @param container - The ThreeScene container
+   * @param id - Optional id of the scene
+   * @param shared - The scene and its views
+   * @returns A function that removes the scene
+   */
+  register: (
+    container: Container,
+    id: string | undefined,
+    shared: SharedThreeScene,
+  ) => () => void;
+  /**
+   * Finds the scene of a {@link ThreeScene}.
+   * @param source - Ref to the ThreeScene container, or its id
+   * @returns The shared scene, null if the ThreeScene is not mounted
+   */
+  get: (
+    source: RefObject<Container | null> | string,
+  ) => SharedThreeScene | null;
+}
+
+/**
+ * Creates the scene registry for a {@link RenderContext}.
+ *
+ * @internal
+ * @returns The scene registry
+ */
+export function createThreeSceneRegistry(): ThreeSceneRegistry {
+  const subscribers = new Set<() => void>();
+  const scenesByContainer = new WeakMap<Container, SharedThreeScene>();
+  const scenesById = new Map<string, SharedThreeScene>();
+
+  function notify() {
+    subscribers.forEach((callback) => callback());
+  }
+
+  return {
+    subscribe(callback) {
+      subscribers.add(callback);
+      return () => {
+        subscribers.delete(callback);
+      };
+    },
+    register(container, id, shared) {
+      scenesByContainer.set(container, shared);
+      if (id !== undefined) {
+        scenesById.set(id, shared);
+      }
+      notify();
+      return () => {
+        if (scenesByContainer.get(container) === shared) {
+          scenesByContainer.delete(container);
+        }
+        if (id !== undefined && scenesById.get(id) === shared) {
+          scenesById.delete(id);
+        }
+        notify();
+      };
+    },
+    get(source) {
+      if (typeof source === "string") {
+        return scenesById.get(source) ?? null;
+      }
+      return source.current
+        ? (scenesByContainer.get(source.current) ?? null)
+        : null;
+    },
+  };
+}
+
+/**
+ * Finds the scene of a {@link ThreeScene} in the same {@link RenderContext}
+ * by its container or id.
+ *
+ * @internal
+ * @param source - Ref to the ThreeScene container, or its id
+ * @returns The shared scene, null until the ThreeScene is mounted
+ */
+export function useSharedThreeScene(
+  source: RefObject<Container | null> | string,
+) {
+  const { threeScenes } = useRenderContext();
+  return useSyncExternalStore(threeScenes.subscribe, () =>
+    threeScenes.get(source),
+  );
+}
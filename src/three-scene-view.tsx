@@ -0,0 +1,147 @@
+import { extend, type PixiReactElementProps } from "@pixi/react";
+import { Container } from "pixi.js";
+import {
+  type ReactNode,
+  type RefObject,
+  useImperativeHandle,
+  useRef,
+} from "react";
+import { type OrthographicCamera, type PerspectiveCamera } from "three";
+
+import { type ThreeSceneBaseProps, ThreeSceneSprite } from "./three-scene";
+import { useSharedThreeScene } from "./three-scene-registry";
+
+extend({ Container });
+
+/**
+ * See {@link ThreeSceneView}.
+ *
+ * @category component
+ * @expand
+ */
+export type ThreeSceneViewProps = PixiReactElementProps &
+  ThreeSceneViewBaseProps;
+
+/**
+ * See {@link ThreeSceneView}.
+ *
+ * @category component
+ * @expand
+ */
+export interface ThreeSceneViewBaseProps extends Omit<
+  ThreeSceneBaseProps,
+  "id" | "camera" | "children"
+> {
+  /** Ref to the {@link ThreeScene} container whose scene is rendered, or its `id` */
+  scene: RefObject<Container | null> | string;
+  /** Camera the scene is rendered from */
+  camera: PerspectiveCamera | OrthographicCamera;
+  /**
+   * Optional children, added to the shared scene but using the camera and
+   * bijections of this view, e.g. controls of the camera
+   */
+  children?: ReactNode;
+}
+
+/**
+ * A {@link https://pixijs.download/release/docs/scene.Sprite.html | Pixi Sprite} that renders the
+ * scene of a {@link ThreeScene} from another camera, with its own render
+ * target, e.g. for the top, front, side and perspective views of a CAD
+ * model without duplicating it.
+ *
+ * It can be in any {@link CanvasView}. Events route to the objects of the
+ * shared scene through the camera of the view, and {@link useThreeSceneContext}
+ * maps coordinates through the view inside its children. Renders nothing
+ * until the ThreeScene is mounted.
+ *
+ * @category component
+ * @param props - Also accepts {@link https://github.com/pixijs/pixi-react/blob/main/src/typedefs/PixiReactNode.ts | PixiReactElementProps}
+ * @expandType ThreeSceneViewBaseProps
+ * @example
+ * ```tsx
+ * const [topCamera] = useState(() => new OrthographicCamera());
+ * return (
+ *   <RenderContext>
+ *     <CanvasView>
+ *       <ThreeScene id="model">
+ *         <Model />
+ *       </ThreeScene>
+ *     </CanvasView>
+ *     <CanvasView>
+ *       <ThreeSceneView scene="model" camera={topCamera} />
+ *     </CanvasView>
+ *   </RenderContext>
+ * );
+ * ```
+ */
+export function ThreeSceneView({
+  ref,
+  scene,
+  width,
+  height,
+  resolution,
+  renderTargetOptions,
+  renderPriority,
+  eventPriority,
+  frameloop,
+  eventCompute,
+  postProcessing,
+  fpsLimit,
+  depth,
+  outputs,
+  outputsRef,
+  picking,
+  pickingInterval,
+  hitTestMode,
+  camera,
+  viewports,
+  children,
+  ...props
+}: ThreeSceneViewProps) {
+  const containerRef = useRef<Container>(null!);
+  const shared = useSharedThreeScene(scene);
+
+  useImperativeHandle(ref, () => containerRef.current);
+
+  return (
+    <pixiContainer {...props} ref={containerRef}>
+      {shared && (
+        <ThreeSceneSprite
+          key={shared.scene.uuid}
+          spriteRef={(sprite) => {
+            if (!sprite || !containerRef.current) {
+              return;
+            }
+            containerRef.current.addChild(sprite);
+            // The sprite is recreated for another scene
+            return () => {
+              sprite.removeFromParent();
+            };
+          }}
+          containerRef={containerRef}
+          shared={shared}
+          width={width}
+          height={height}
+          resolution={resolution}
+          renderTargetOptions={renderTargetOptions}
+          renderPriority={renderPriority}
+          eventPriority={eventPriority}
+          frameloop={frameloop}
+          eventCompute={eventCompute}
+          postProcessing={postProcessing}
+          fpsLimit={fpsLimit}
+          depth={depth}
+          outputs={outputs}
+          outputsRef={outputsRef}
+          picking={picking}
+          pickingInterval={pickingInterval}
+          hitTestMode={hitTestMode}
+          camera={camera}
+          viewports={viewports}
+        >
+          {children}
+        </ThreeSceneSprite>
+      )}
+    </pixiContainer>
+  );
+}
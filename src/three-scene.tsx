@@ -8,12 +8,14 @@ import {
   createPortal,
   type DomEvent,
   type RootState,
+  useStore,
   useThree,
 } from "@react-three/fiber";
 import {
   type Application,
   Container,
   ExternalSource,
+  groupD8,
   type IHitArea,
   Point,
   type Renderer,
@@ -25,14 +27,18 @@ import {
   type Ref,
   type RefObject,
   useEffect,
+  useEffectEvent,
   useId,
   useImperativeHandle,
   useRef,
   useState,
 } from "react";
 import {
+  type Camera,
   Mesh,
   type Object3D,
+  type OrthographicCamera,
+  type PerspectiveCamera,
   type Plane,
   Raycaster,
   type RenderTargetOptions,
@@ -43,6 +49,10 @@ import {
 import { type PostProcessing } from "three/webgpu";
 import tunnel from "tunnel-rat";
 
+import {
+  AccessibilityLayerContext,
+  useAccessibilitySource,
+} from "./accessibility-tree";
 import {
   mapNdcToPixi as mapNdcToPixiUtil,
   mapPixiToNdc as mapPixiToNdcUtil,
@@ -52,23 +62,66 @@ import {
 import { useViewport } from "./canvas-tree-context";
 import { CanvasTreeContext, useCanvasTreeStore } from "./canvas-tree-context";
 import { useCanvasView } from "./canvas-view-context";
+import { isDomSurfaceEvent } from "./dom-surface-events";
+import { type GBufferOutput, type GBufferTextures } from "./g-buffer";
+import {
+  attachGpuPicker,
+  createGpuPicker,
+  type GpuPicker,
+  type PickingMode,
+} from "./gpu-picking";
+import { usePickLayer } from "./pick";
+import { createPixelReadback, type PixelReadback } from "./pixel-readback";
 import {
   type PixiTextureContextValue,
   usePixiTextureContextOptional,
   usePixiViewContext,
 } from "./pixi-texture-context";
+import { getRenderBackend, type NativeTexture } from "./render-backend";
 import { useRenderContext } from "./render-context-hooks";
+import { addThreeSceneDepth } from "./three-depth-filter";
 import { PortalContent } from "./three-portal-content";
 import {
   type RaycastResult,
   ThreeSceneContext,
   useThreeSceneContextOptional,
 } from "./three-scene-context";
+import {
+  type SharedThreeScene,
+  type SharedThreeSceneView,
+} from "./three-scene-registry";
+import {
+  findViewport,
+  mapViewportNdcToTexture,
+  type ThreeViewport,
+} from "./three-viewport";
 import { useBridge } from "./use-bridge";
+import { usePointerCaptures } from "./use-pointer-captures";
+import { useRenderNode } from "./use-render-node";
 import { useRenderSchedule } from "./use-render-schedule";
+import { computeVirtualRay, getVirtualRay } from "./virtual-pointer";
 
 extend({ Container, Sprite });
 
+/** Size of the ID buffer relative to the color in "gpu" picking mode */
+const PICKING_SCALE = 0.25;
+
+/** Alpha above which a pixel hits in "alpha" hit test mode */
+const ALPHA_HIT_THRESHOLD = 0.01;
+
+/** Creates a texture that shows a render target texture of a scene */
+function createSceneTexture(renderer: Renderer, label: string) {
+  return new Texture({
+    dynamic: true,
+    source: new ExternalSource({ renderer, label }),
+    // Three WebGL render targets are stored bottom-up
+    rotate:
+      getRenderBackend(renderer) === "webgl"
+        ? groupD8.MIRROR_VERTICAL
+        : undefined,
+  });
+}
+
 /**
  * @internal
  */
@@ -85,6 +138,26 @@ export function ThreeSceneRenderer() {
  */
 export type ThreeSceneProps = PixiReactElementProps & ThreeSceneBaseProps;
 
+/**
+ * How a {@link ThreeScene} sprite decides whether a point hits it, so that
+ * pointers pass through to Pixi content underneath where it does not.
+ *
+ * - `"raycast"`: hits where a ray hits any object, answered by the ID buffer
+ *   in `"gpu"` picking mode
+ * - `"alpha"`: hits where the rendered texture is not transparent, read from
+ *   a cached readback, e.g. for alpha-tested foliage, transparent materials
+ *   and post-processed glows. Raycasts until a readback is available.
+ * - `"bounds"`: hits anywhere in the sprite
+ * - A function of the point from 0 to 1, from the top left of the sprite
+ *
+ * @category component
+ */
+export type HitTestMode =
+  | "raycast"
+  | "alpha"
+  | "bounds"
+  | ((x: number, y: number) => boolean);
+
 /**
  * See {@link ThreeScene}.
  *
@@ -92,6 +165,8 @@ export type ThreeSceneProps = PixiReactElementProps & ThreeSceneBaseProps;
  * @expand
  */
 export interface ThreeSceneBaseProps {
+  /** Optional id by which {@link ThreeSceneView}s find the scene */
+  id?: string;
   /** Optional width of the texture, defaults to canvas parent bounds */
   width?: number;
   /** Optional height of the texture, defaults to canvas parent bounds */
@@ -102,7 +177,7 @@ export interface ThreeSceneBaseProps {
    * Optional {@link https://threejs.org/docs/#WebGLRenderTarget | RenderTarget} options
    */
   renderTargetOptions?: RenderTargetOptions;
-  /** Optional render priority, defaults to 0 */
+  /** Optional render priority among independent scenes and textures, lower renders first, defaults to 0 */
   renderPriority?: number;
   /** Optional event priority, defaults to 0 */
   eventPriority?: number;
@@ -118,6 +193,28 @@ export interface ThreeSceneBaseProps {
   postProcessing?: (x: RootState) => PostProcessing;
   /** Optional FPS limit */
   fpsLimit?: number;
+  /** Renders the distance of the scene to the camera for {@link ThreeDepthFilter}, defaults to false */
+  depth?: boolean;
+  /**
+   * Optional outputs rendered alongside the color for Pixi filters, see {@link GBufferOutput},
+   * not rendered with `postProcessing`, defaults to none
+   */
+  outputs?: GBufferOutput[];
+  /** Optional ref to the Pixi textures of `outputs` */
+  outputsRef?: Ref<GBufferTextures>;
+  /** Optional way of finding the objects under a point, see {@link PickingMode}, defaults to "raycast" */
+  picking?: PickingMode;
+  /** Optional minimum milliseconds between ID buffer renders and alpha readbacks, defaults to 100 */
+  pickingInterval?: number;
+  /** Optional way of hit testing the sprite, see {@link HitTestMode}, defaults to "raycast" */
+  hitTestMode?: HitTestMode;
+  /** Optional camera of the scene in place of the default camera */
+  camera?: PerspectiveCamera | OrthographicCamera;
+  /**
+   * Optional regions rendered from their own cameras, see {@link ThreeViewport},
+   * ignored with `postProcessing`
+   */
+  viewports?: ThreeViewport[];
   /** Children will be rendered into a portal */
   children: ReactNode;
 }
@@ -147,6 +244,7 @@ export interface ThreeSceneBaseProps {
  */
 export function ThreeScene({
   ref,
+  id,
   width,
   height,
   resolution,
@@ -157,6 +255,14 @@ export function ThreeScene({
   eventCompute,
   postProcessing,
   fpsLimit,
+  depth,
+  outputs,
+  outputsRef,
+  picking,
+  pickingInterval,
+  hitTestMode,
+  camera,
+  viewports,
   children,
   ...props
 }: ThreeSceneProps) {
@@ -174,6 +280,7 @@ export function ThreeScene({
           containerRef.current.addChild(sprite);
         }}
         containerRef={containerRef}
+        id={id}
         width={width}
         height={height}
         resolution={resolution}
@@ -184,6 +291,14 @@ export function ThreeScene({
         eventCompute={eventCompute}
         postProcessing={postProcessing}
         fpsLimit={fpsLimit}
+        depth={depth}
+        outputs={outputs}
+        outputsRef={outputsRef}
+        picking={picking}
+        pickingInterval={pickingInterval}
+        hitTestMode={hitTestMode}
+        camera={camera}
+        viewports={viewports}
       >
         {children}
       </ThreeSceneSprite>
@@ -191,14 +306,18 @@ export function ThreeScene({
   );
 }
 
-interface ThreeSceneSpriteProps extends ThreeSceneBaseProps {
+/** @internal */
+export interface ThreeSceneSpriteProps extends ThreeSceneBaseProps {
   /** Three View Sprite Ref */
   spriteRef: Ref<Sprite>;
   /** Pixi Container ref*/
   containerRef: RefObject<Container>;
+  /** Scene of another ThreeScene to render instead of an own scene */
+  shared?: SharedThreeScene;
 }
 
-function ThreeSceneSprite(props: ThreeSceneSpriteProps) {
+/** @internal */
+export function ThreeSceneSprite(props: ThreeSceneSpriteProps) {
   const Bridge = useBridge();
   const { app } = useApplication();
   const { threeSceneTunnel } = useRenderContext();
@@ -238,6 +357,8 @@ function ThreeSceneSpriteInternal({
   containerRef,
   app,
   pixiTextureContext,
+  id,
+  shared,
   width: widthProp,
   height: heightProp,
   resolution: resolutionProp,
@@ -248,11 +369,36 @@ function ThreeSceneSpriteInternal({
   eventCompute,
   postProcessing,
   fpsLimit,
+  depth = false,
+  outputs,
+  outputsRef,
+  picking = "raycast",
+  pickingInterval = 100,
+  hitTestMode = "raycast",
+  camera,
+  viewports: viewportsProp,
   children,
 }: ThreeSceneSpriteInternalProps) {
+  // Post-processing renders the whole texture from the scene camera, so
+  // picking and events must not split it either
+  const viewports = postProcessing ? undefined : viewportsProp;
   const { canvasRef, containerRef: canvasContainerRef } = useCanvasView();
   const size = useViewport();
-  const [scene] = useState(new Scene());
+  const { threeScenes } = useRenderContext();
+  const [ownScene] = useState(new Scene());
+  const scene = shared?.scene ?? ownScene;
+  const [views] = useState(() => new Set<SharedThreeSceneView>());
+  const previousStore = useStore();
+
+  useEffect(() => {
+    if (shared) {
+      return;
+    }
+    return threeScenes.register(containerRef.current, id, {
+      scene,
+      views,
+    });
+  }, [threeScenes, shared, containerRef, id, scene, views]);
 
   const width = widthProp ?? size.width;
   const height = heightProp ?? size.height;
@@ -270,18 +416,80 @@ function ThreeSceneSpriteInternal({
         height,
         eventMode: "static",
       });
-      x.texture = new Texture({
+      x.texture = createSceneTexture(app.renderer, "three-scene");
+      return x;
+    })(),
+  );
+
+  useImperativeHandle(spriteRef, () => sprite.current, []);
+
+  const [depthTexture] = useState(
+    () =>
+      new Texture({
         dynamic: true,
         source: new ExternalSource({
           renderer: app.renderer,
-          label: "three-scene",
+          label: "three-scene-depth",
         }),
-      });
-      return x;
-    })(),
+      }),
   );
+  const depthCamera = useRef<Camera | null>(null);
 
-  useImperativeHandle(spriteRef, () => sprite.current, []);
+  // External sources only release the binding, Three owns the GPU texture
+  useEffect(() => () => depthTexture.destroy(true), [depthTexture]);
+
+  const [outputTextures] = useState<GBufferTextures>(() => ({
+    depth: createSceneTexture(app.renderer, "three-scene-output-depth"),
+    normal: createSceneTexture(app.renderer, "three-scene-output-normal"),
+    id: createSceneTexture(app.renderer, "three-scene-output-id"),
+  }));
+
+  useImperativeHandle(outputsRef, () => outputTextures, [outputTextures]);
+
+  useEffect(
+    () => () =>
+      Object.values(outputTextures).forEach((texture) => texture.destroy(true)),
+    [outputTextures],
+  );
+
+  function onOutputTextureUpdate(
+    output: GBufferOutput,
+    texture: NativeTexture,
+    textureWidth: number,
+    textureHeight: number,
+  ) {
+    (outputTextures[output].source as ExternalSource).updateGPUTexture(
+      texture,
+      textureWidth,
+      textureHeight,
+    );
+  }
+
+  useEffect(() => {
+    if (!depth) {
+      return;
+    }
+    return addThreeSceneDepth(containerRef.current, {
+      texture: depthTexture,
+      sprite: sprite.current,
+      getCamera: () => depthCamera.current,
+      flipY: getRenderBackend(app.renderer) === "webgl",
+    });
+  }, [depth, containerRef, depthTexture, app]);
+
+  function onDepthTextureUpdate(
+    texture: NativeTexture,
+    textureWidth: number,
+    textureHeight: number,
+    camera: Camera,
+  ) {
+    (depthTexture.source as ExternalSource).updateGPUTexture(
+      texture,
+      textureWidth,
+      textureHeight,
+    );
+    depthCamera.current = camera;
+  }
 
   const changedSize = useRef(true);
 
@@ -289,8 +497,16 @@ function ThreeSceneSpriteInternal({
     changedSize.current = true;
   }, [height, width]);
 
-  function onTextureUpdate(texture: GPUTexture) {
-    (sprite.current.texture.source as ExternalSource).updateGPUTexture(texture);
+  function onTextureUpdate(
+    texture: NativeTexture,
+    textureWidth: number,
+    textureHeight: number,
+  ) {
+    (sprite.current.texture.source as ExternalSource).updateGPUTexture(
+      texture,
+      textureWidth,
+      textureHeight,
+    );
     if (changedSize.current) {
       sprite.current.setSize(width, height);
       changedSize.current = false;
@@ -309,10 +525,22 @@ function ThreeSceneSpriteInternal({
   const globalPos = new Point();
   const localPos = new Point();
 
+  const { isPointerCaptured, capturePointer } = usePointerCaptures(
+    pixiTextureContext?.capturePointer,
+  );
+
   function computeFn(event: DomEvent, state: RootState, previous?: RootState) {
+    const virtualRay = getVirtualRay(event);
+    if (virtualRay?.scene === state.scene) {
+      return computeVirtualRay(virtualRay, state);
+    }
     const pointerId = (event as PointerEvent).pointerId;
     const isCaptured =
-      pointerId !== undefined && state.internal.capturedMap.has(pointerId);
+      (pointerId !== undefined && state.internal.capturedMap.has(pointerId)) ||
+      isPointerCaptured(pointerId);
+    if (!isCaptured && isDomSurfaceEvent(event)) {
+      return false;
+    }
 
     if (pixiTextureContext) {
       if (!previous) {
@@ -352,6 +580,10 @@ function ThreeSceneSpriteInternal({
         return false;
       }
     } else {
+      if (virtualRay) {
+        // Virtual pointers of other scenes have no client position
+        return false;
+      }
       const rect = canvasRef.current.getBoundingClientRect();
       clientPos.x = event.clientX - rect.left;
       clientPos.y = event.clientY - rect.top;
@@ -369,9 +601,93 @@ function ThreeSceneSpriteInternal({
 
     sprite.current.toLocal(globalPos, undefined, localPos);
     mapPixiToNdc(localPos, state.pointer);
-    state.raycaster.setFromCamera(state.pointer, state.camera);
+    const viewportCamera = findViewport(
+      viewports,
+      state.camera,
+      state.pointer,
+      state.pointer,
+    );
+    if (!viewportCamera) {
+      return false;
+    }
+    state.raycaster.setFromCamera(state.pointer, viewportCamera);
+  }
+
+  // Views of the scene that a pointer was last in, so captured pointers stay
+  // with their view
+  const [pointerViews] = useState(
+    () => new Map<number, SharedThreeSceneView | null>(),
+  );
+
+  function computeSharedFn(
+    event: DomEvent,
+    state: RootState,
+    previous?: RootState,
+  ) {
+    if (!views.size) {
+      pointerViews.clear();
+      return computeFn(event, state, previous);
+    }
+    const pointerId = (event as PointerEvent).pointerId;
+    const result = computePointerView(event, state, pointerId, previous);
+    if (
+      pointerId !== undefined &&
+      (event.type === "pointerup" || event.type === "pointercancel")
+    ) {
+      pointerViews.delete(pointerId);
+    }
+    return result;
+  }
+
+  function computePointerView(
+    event: DomEvent,
+    state: RootState,
+    pointerId: number | undefined,
+    previous?: RootState,
+  ) {
+    if (
+      pointerId !== undefined &&
+      state.internal.capturedMap.has(pointerId) &&
+      pointerViews.has(pointerId)
+    ) {
+      const view = pointerViews.get(pointerId);
+      return view
+        ? view.compute(event, state)
+        : computeFn(event, state, previous);
+    }
+    let view: SharedThreeSceneView | null = null;
+    if (computeFn(event, state, previous) === false) {
+      view = [...views].find((x) => x.compute(event, state) !== false) ?? null;
+      if (!view) {
+        return false;
+      }
+    }
+    if (pointerId !== undefined) {
+      pointerViews.set(pointerId, view);
+    }
   }
 
+  const computeView = useEffectEvent((event: DomEvent, state: RootState) =>
+    computeFn(
+      event,
+      camera ? { ...state, camera } : state,
+      previousStore.getState(),
+    ),
+  );
+
+  useEffect(() => {
+    if (!shared) {
+      return;
+    }
+    const view: SharedThreeSceneView = {
+      compute: (event, state) => computeView(event, state),
+    };
+    shared.views.add(view);
+    return () => {
+      shared.views.delete(view);
+    };
+  }, [shared]);
+
   const sceneTunnel = tunnel();
 
   function setHitArea(
@@ -391,18 +707,46 @@ function ThreeSceneSpriteInternal({
   const { isFrameRequested, invalidate, signalFrame } = useRenderSchedule({
     fpsLimit,
   });
+  const [picker] = useState(() =>
+    createGpuPicker({
+      scene,
+      scale: PICKING_SCALE,
+      flipY: getRenderBackend(app.renderer) === "webgl",
+    }),
+  );
+  const activePicker = picking === "gpu" ? picker : undefined;
+  const [alphaReadback] = useState(() =>
+    createPixelReadback(getRenderBackend(app.renderer) === "webgl"),
+  );
+  const activeAlphaReadback =
+    hitTestMode === "alpha" ? alphaReadback : undefined;
+
+  useEffect(() => () => picker.dispose(), [picker]);
+
+  const renderNode = useRenderNode({
+    label: "three-scene",
+    priority: renderPriority,
+    output: containerRef,
+  });
 
   return (
     <>
-      <CanvasTreeContext value={{ store, invalidate }}>
+      <CanvasTreeContext value={{ store, invalidate, renderNode }}>
         {createPortal(
           <PortalContent
-            renderPriority={renderPriority}
+            renderNode={renderNode}
             width={width}
             height={height}
             resolution={resolution}
             renderTargetOptions={renderTargetOptions}
             onTextureUpdate={onTextureUpdate}
+            onDepthTextureUpdate={depth ? onDepthTextureUpdate : undefined}
+            outputs={outputs}
+            onOutputTextureUpdate={onOutputTextureUpdate}
+            viewports={viewports}
+            picker={activePicker}
+            pickingInterval={pickingInterval}
+            colorReadback={activeAlphaReadback}
             postProcessing={postProcessing}
             frameloop={frameloop}
             isFrameRequested={isFrameRequested}
@@ -411,12 +755,21 @@ function ThreeSceneSpriteInternal({
             <ThreeSceneContextProvider
               containerRef={containerRef}
               sceneTunnel={sceneTunnel}
-              mapPixiToNdc={mapPixiToNdc}
-              mapNdcToPixi={mapNdcToPixi}
+              capturePointer={capturePointer}
+              mapPixiToTextureNdc={mapPixiToNdc}
+              mapTextureNdcToPixi={mapNdcToPixi}
+              viewports={viewports}
               sprite={sprite}
               pixiTextureContext={pixiTextureContext}
             >
-              <HitAreaSetup setHitArea={setHitArea} />
+              <HitAreaSetup
+                setHitArea={setHitArea}
+                picker={activePicker}
+                hitTestMode={hitTestMode}
+                alphaReadback={activeAlphaReadback}
+                viewports={viewports}
+                invalidate={invalidate}
+              />
               {children}
               <sceneTunnel.Out />
             </ThreeSceneContextProvider>
@@ -426,11 +779,12 @@ function ThreeSceneSpriteInternal({
           scene,
           {
             events: {
-              compute: eventCompute ?? computeFn,
+              compute: eventCompute ?? computeSharedFn,
               priority: eventPriority,
               connected: canvasRef.current,
             },
             size: { top: 0, left: 0, width, height },
+            ...(camera && { camera }),
           },
         )}
       </CanvasTreeContext>
@@ -441,8 +795,12 @@ function ThreeSceneSpriteInternal({
 interface ThreeSceneContextProviderProps {
   containerRef: RefObject<Container>;
   sceneTunnel: ReturnType<typeof tunnel>;
-  mapPixiToNdc: (point: Point, out?: Vector2) => Vector2;
-  mapNdcToPixi: (ndc: Vector2, out?: Point) => Point;
+  capturePointer: (pointerId: number) => () => void;
+  /** Maps local sprite coordinates to NDC of the whole texture */
+  mapPixiToTextureNdc: (point: Point, out?: Vector2) => Vector2;
+  /** Maps NDC of the whole texture to local sprite coordinates */
+  mapTextureNdcToPixi: (ndc: Vector2, out?: Point) => Point;
+  viewports: ThreeViewport[] | undefined;
   sprite: RefObject<Sprite>;
   pixiTextureContext: PixiTextureContextValue | null;
   children: ReactNode;
@@ -451,8 +809,10 @@ interface ThreeSceneContextProviderProps {
 function ThreeSceneContextProvider({
   containerRef,
   sceneTunnel,
-  mapPixiToNdc,
-  mapNdcToPixi,
+  capturePointer,
+  mapPixiToTextureNdc,
+  mapTextureNdcToPixi,
+  viewports,
   sprite,
   children,
 }: ThreeSceneContextProviderProps) {
@@ -461,8 +821,26 @@ function ThreeSceneContextProvider({
   const [raycaster] = useState(new Raycaster());
 
   const _ndc = new Vector2();
+  const _textureNdc = new Vector2();
   const _localPos = new Point();
 
+  /** Maps local sprite coordinates to the viewport under them, returning its camera */
+  function mapPixiToViewportNdc(point: Point, out: Vector2) {
+    mapPixiToTextureNdc(point, out);
+    return findViewport(viewports, camera, out, out);
+  }
+
+  function mapPixiToNdc(point: Point, out?: Vector2) {
+    const result = out ?? new Vector2();
+    mapPixiToViewportNdc(point, result);
+    return result;
+  }
+
+  function mapNdcToPixi(ndc: Vector2, out?: Point) {
+    mapViewportNdcToTexture(viewports, camera, ndc, _textureNdc);
+    return mapTextureNdcToPixi(_textureNdc, out);
+  }
+
   function mapThreeToParentPixiLocal(vec3: Vector3, out?: Point) {
     // Project world vec3 through camera to NDC
     mapThreeToNdc(vec3, camera, _ndc);
@@ -508,12 +886,13 @@ function ThreeSceneContextProvider({
     return mapPixiToNdc(_localPos, out);
   }
 
-  function raycastNdc<T extends Object3D | Plane | Object3D[] = Object3D>(
+  function raycastCamera<T extends Object3D | Plane | Object3D[] = Object3D>(
     ndc: Vector2,
+    rayCamera: Camera,
     target?: T,
     recursive?: boolean,
   ): RaycastResult<T>[] {
-    raycaster.setFromCamera(ndc, camera);
+    raycaster.setFromCamera(ndc, rayCamera);
     if (target) {
       if (Array.isArray(target)) {
         return raycaster.intersectObjects(
@@ -546,22 +925,74 @@ function ThreeSceneContextProvider({
     ) as RaycastResult<T>[];
   }
 
+  function raycastNdc<T extends Object3D | Plane | Object3D[] = Object3D>(
+    ndc: Vector2,
+    target?: T,
+    recursive?: boolean,
+  ): RaycastResult<T>[] {
+    return raycastCamera(ndc, camera, target, recursive);
+  }
+
+  /** Raycasts from local sprite coordinates through the camera of the viewport under them */
+  function raycastPixi<T extends Object3D | Plane | Object3D[] = Object3D>(
+    point: Point,
+    target?: T,
+    recursive?: boolean,
+  ): RaycastResult<T>[] {
+    const viewportCamera = mapPixiToViewportNdc(point, _ndc);
+    return viewportCamera
+      ? raycastCamera(_ndc, viewportCamera, target, recursive)
+      : [];
+  }
+
   function raycastClient<T extends Object3D | Plane | Object3D[] = Object3D>(
     client: Point | { clientX: number; clientY: number },
     target?: T,
     recursive?: boolean,
   ): RaycastResult<T>[] {
-    mapClientToNdc(client, _ndc);
-    return raycastNdc(_ndc, target, recursive);
+    const pixiResult = pixiViewContext.mapClientToPixi(client, _localPos);
+    if (!pixiResult) return [];
+    sprite.current.toLocal(_localPos, undefined, _localPos);
+    return raycastPixi(_localPos, target, recursive);
   }
 
+  const { canvasRef } = useCanvasView();
+  const { accessibilityTree } = useRenderContext();
+
+  const accessibilityLayer = useAccessibilitySource(accessibilityTree, {
+    type: "three",
+    getScene: () => scene,
+    getCamera: () => camera,
+    mapThreeToClient: (world, out) => mapThreeToClient(world, out)[0] ?? null,
+    getCanvas: () => canvasRef.current,
+  });
+
+  usePickLayer({
+    getOwner: () => sprite.current,
+    pick: (ownerHit) => {
+      if (ownerHit.type !== "pixi") {
+        return null;
+      }
+      sprite.current.toLocal(ownerHit.point, undefined, _localPos);
+      const ndc = new Vector2();
+      const viewportCamera = mapPixiToViewportNdc(_localPos, ndc);
+      if (!viewportCamera) {
+        return null;
+      }
+      const [intersection] = raycastCamera(ndc, viewportCamera);
+      return intersection ? { type: "three", ndc, intersection } : null;
+    },
+  });
+
   function raycastViewport<T extends Object3D | Plane | Object3D[] = Object3D>(
     viewport: Point,
     target?: T,
     recursive?: boolean,
   ): RaycastResult<T>[] {
-    mapViewportToNdc(viewport, _ndc);
-    return raycastNdc(_ndc, target, recursive);
+    const pixiResult = pixiViewContext.mapViewportToPixi(viewport, _localPos);
+    if (!pixiResult) return [];
+    sprite.current.toLocal(_localPos, undefined, _localPos);
+    return raycastPixi(_localPos, target, recursive);
   }
 
   return (
@@ -569,6 +1000,7 @@ function ThreeSceneContextProvider({
       value={{
         containerRef,
         sceneTunnel,
+        capturePointer,
         mapPixiToNdc,
         mapNdcToPixi,
         mapThreeToParentPixiLocal,
@@ -582,25 +1014,78 @@ function ThreeSceneContextProvider({
         raycastViewport,
       }}
     >
-      {children}
+      <AccessibilityLayerContext value={accessibilityLayer}>
+        {children}
+      </AccessibilityLayerContext>
     </ThreeSceneContext>
   );
 }
 
 interface HitAreaSetupProps {
   setHitArea: (hitArea: IHitArea | null) => void;
+  /** Answers hit tests and event raycasts when set, raycasting is the fallback */
+  picker?: GpuPicker;
+  hitTestMode: HitTestMode;
+  /** Readback of the color in "alpha" hit test mode */
+  alphaReadback?: PixelReadback;
+  viewports: ThreeViewport[] | undefined;
+  /** Requests a frame to render the ID buffer or read back the color in */
+  invalidate: () => void;
 }
 
-function HitAreaSetup({ setHitArea }: HitAreaSetupProps) {
-  const { camera, scene } = useThree();
+function HitAreaSetup({
+  setHitArea,
+  picker,
+  hitTestMode,
+  alphaReadback,
+  viewports,
+  invalidate,
+}: HitAreaSetupProps) {
+  const { camera, scene, raycaster: eventRaycaster } = useThree();
   const [raycaster] = useState(new Raycaster());
   const [pointer] = useState(new Vector2());
+  const [viewportPointer] = useState(new Vector2());
+  const [pixel] = useState(() => [0, 0, 0, 0]);
+  const getViewports = useEffectEvent(() => viewports);
+
+  useEffect(() => {
+    if (!picker) {
+      return;
+    }
+    return attachGpuPicker(eventRaycaster, picker, () => getViewports());
+  }, [eventRaycaster, picker]);
 
   useEffect(() => {
     setHitArea({
       contains(x: number, y: number): boolean {
+        if (typeof hitTestMode === "function") {
+          return hitTestMode(x, y);
+        } else if (hitTestMode === "bounds") {
+          return true;
+        }
         pointer.set(x * 2 - 1, -(y * 2 - 1));
-        raycaster.setFromCamera(pointer, camera);
+        if (alphaReadback) {
+          if (alphaReadback.getPixel(pointer, pixel)) {
+            return pixel[3] > ALPHA_HIT_THRESHOLD;
+          }
+          invalidate();
+        } else if (picker) {
+          const picked = picker.getObject(pointer);
+          if (picked !== undefined) {
+            return picked !== null;
+          }
+          invalidate();
+        }
+        const viewportCamera = findViewport(
+          viewports,
+          camera,
+          pointer,
+          viewportPointer,
+        );
+        if (!viewportCamera) {
+          return false;
+        }
+        raycaster.setFromCamera(viewportPointer, viewportCamera);
 
         const intersects = raycaster.intersectObjects(scene.children, true);
         return intersects.length > 0;
@@ -610,7 +1095,20 @@ function HitAreaSetup({ setHitArea }: HitAreaSetupProps) {
     return () => {
       setHitArea(null);
     };
-  }, [setHitArea, raycaster, pointer, camera, scene]);
+  }, [
+    setHitArea,
+    raycaster,
+    pointer,
+    viewportPointer,
+    pixel,
+    camera,
+    scene,
+    picker,
+    hitTestMode,
+    alphaReadback,
+    viewports,
+    invalidate,
+  ]);
 
   return null;
 }
@@ -0,0 +1,202 @@
+import { type Camera, type RenderTarget, type Vector2 } from "three";
+import { type WebGPURenderer } from "three/webgpu";
+
+/**
+ * Region of a {@link ThreeScene} or {@link ThreeRenderTexture} rendered from
+ * its own camera, e.g. for split screens or a minimap. Later viewports are
+ * rendered on top of earlier ones.
+ *
+ * Edges are fractions of the texture from its top left. Like in React Three
+ * Fiber, cameras are fitted to their viewport unless they set `manual`, so
+ * orthographic cameras show one world unit per pixel at a zoom of 1.
+ *
+ * @category component
+ * @expand
+ * @example
+ * ```tsx
+ * const [topCamera] = useState(() => new OrthographicCamera());
+ * return (
+ *   <ThreeScene
+ *     viewports={[
+ *       { camera: playerCamera },
+ *       { camera: topCamera, x: 0.75, width: 0.25, height: 0.25 },
+ *     ]}
+ *   >
+ *     <Level />
+ *   </ThreeScene>
+ * );
+ * ```
+ */
+export interface ThreeViewport {
+  /** Camera the region is rendered from */
+  camera: Camera;
+  /** Optional left edge, defaults to 0 */
+  x?: number;
+  /** Optional top edge, defaults to 0 */
+  y?: number;
+  /** Optional width, defaults to 1 */
+  width?: number;
+  /** Optional height, defaults to 1 */
+  height?: number;
+}
+
+interface FittableCamera extends Camera {
+  isOrthographicCamera?: boolean;
+  aspect?: number;
+  left?: number;
+  right?: number;
+  top?: number;
+  bottom?: number;
+  /** Set to opt out of automatic updates, like in React Three Fiber */
+  manual?: boolean;
+  updateProjectionMatrix?: () => void;
+}
+
+/**
+ * Fits a camera to a size like React Three Fiber does: perspective cameras
+ * take the aspect ratio and orthographic cameras span the size in pixels, so
+ * neither stretches the scene.
+ *
+ * @internal
+ * @param camera - The camera, skipped if it sets `manual`
+ * @param width - Width in pixels
+ * @param height - Height in pixels
+ */
+export function fitCamera(camera: Camera, width: number, height: number) {
+  const fittable = camera as FittableCamera;
+  if (fittable.manual || !(width > 0 && height > 0)) {
+    return;
+  }
+  if (fittable.isOrthographicCamera) {
+    fittable.left = width / -2;
+    fittable.right = width / 2;
+    fittable.top = height / 2;
+    fittable.bottom = height / -2;
+  } else {
+    fittable.aspect = width / height;
+  }
+  fittable.updateProjectionMatrix?.();
+}
+
+function getRect({ x = 0, y = 0, width = 1, height = 1 }: ThreeViewport) {
+  return { x, y, width, height };
+}
+
+/**
+ * Finds the viewport under a point of the texture.
+ *
+ * @internal
+ * @param viewports - The viewports, the whole texture if empty
+ * @param camera - Camera of the whole texture
+ * @param ndc - Normalized device coordinates of the texture
+ * @param out - Vector2 that receives the coordinates in the viewport
+ * @returns The viewport camera, null if no viewport is under the point
+ */
+export function findViewport(
+  viewports: ThreeViewport[] | undefined,
+  camera: Camera,
+  ndc: Vector2,
+  out: Vector2,
+) {
+  if (!viewports?.length) {
+    out.copy(ndc);
+    return camera;
+  }
+  const u = (ndc.x + 1) / 2;
+  const v = (1 - ndc.y) / 2;
+  for (let i = viewports.length - 1; i >= 0; i--) {
+    const { x, y, width, height } = getRect(viewports[i]);
+    if (u >= x && u <= x + width && v >= y && v <= y + height) {
+      out.set(((u - x) / width) * 2 - 1, 1 - ((v - y) / height) * 2);
+      return viewports[i].camera;
+    }
+  }
+  return null;
+}
+
+/**
+ * Maps coordinates of the viewport of a camera to the whole texture.
+ *
+ * @internal
+ * @param viewports - The viewports, the whole texture if empty
+ * @param camera - The camera, the whole texture if it has no viewport
+ * @param ndc - Normalized device coordinates of the viewport
+ * @param out - Vector2 that receives the coordinates in the texture
+ * @returns The texture coordinates
+ */
+export function mapViewportNdcToTexture(
+  viewports: ThreeViewport[] | undefined,
+  camera: Camera,
+  ndc: Vector2,
+  out: Vector2,
+) {
+  const viewport = viewports?.find((x) => x.camera === camera);
+  if (!viewport) {
+    return out.copy(ndc);
+  }
+  const { x, y, width, height } = getRect(viewport);
+  const u = x + ((ndc.x + 1) / 2) * width;
+  const v = y + ((1 - ndc.y) / 2) * height;
+  return out.set(u * 2 - 1, 1 - v * 2);
+}
+
+/**
+ * Fits the camera of each viewport to its size.
+ *
+ * @internal
+ * @param viewports - The viewports
+ * @param width - Width of the texture in pixels
+ * @param height - Height of the texture in pixels
+ */
+export function fitViewportCameras(
+  viewports: ThreeViewport[],
+  width: number,
+  height: number,
+) {
+  viewports.forEach((viewport) => {
+    const rect = getRect(viewport);
+    fitCamera(viewport.camera, rect.width * width, rect.height * height);
+  });
+}
+
+/**
+ * Renders each viewport into its region of a render target, clearing the
+ * color once and the depth for each viewport.
+ *
+ * @internal
+ * @param gl - The Three renderer, with the render target set
+ * @param renderTarget - The render target
+ * @param viewports - The viewports
+ * @param render - Renders the scene from a camera
+ */
+export function renderViewports(
+  gl: WebGPURenderer,
+  renderTarget: RenderTarget,
+  viewports: ThreeViewport[],
+  render: (camera: Camera) => void,
+) {
+  const { width, height } = renderTarget;
+  const oldAutoClearColor = gl.autoClearColor;
+  const oldScissorTest = gl.getScissorTest();
+  if (gl.autoClear && oldAutoClearColor) {
+    // Also clears regions outside of every viewport
+    gl.clear(true, false, false);
+  }
+  gl.autoClearColor = false;
+  gl.setScissorTest(true);
+  viewports.forEach((viewport) => {
+    const rect = getRect(viewport);
+    renderTarget.viewport.set(
+      Math.round(rect.x * width),
+      Math.round(rect.y * height),
+      Math.round(rect.width * width),
+      Math.round(rect.height * height),
+    );
+    renderTarget.scissor.copy(renderTarget.viewport);
+    render(viewport.camera);
+  });
+  gl.autoClearColor = oldAutoClearColor;
+  gl.setScissorTest(oldScissorTest);
+  renderTarget.viewport.set(0, 0, width, height);
+  renderTarget.scissor.set(0, 0, width, height);
+}
@@ -0,0 +1,133 @@
+import { type Container } from "pixi.js";
+import { useEffect } from "react";
+import { type Object3D } from "three";
+
+import { useCanvasView } from "./canvas-view-context";
+import { type PickHit } from "./pick";
+
+/** @internal */
+export interface CanvasCursor {
+  /** Sets the cursor of the hovered target, "" for the default */
+  setHovered: (cursor: string) => void;
+  /** Overrides the hovered cursor until removed, the latest override wins */
+  addOverride: (cursor: string) => () => void;
+  /** Attaches the canvas element whose style the cursor is applied to */
+  connect: (canvas: HTMLElement) => () => void;
+}
+
+/**
+ * Creates the cursor state of a {@link CanvasView} canvas.
+ *
+ * @internal
+ * @returns The cursor state
+ */
+export function createCanvasCursor(): CanvasCursor {
+  const overrides: { cursor: string }[] = [];
+  let hovered = "";
+  let element: HTMLElement | null = null;
+
+  function apply() {
+    const cursor = overrides.at(-1)?.cursor ?? hovered;
+    if (element && element.style.cursor !== cursor) {
+      element.style.cursor = cursor;
+    }
+  }
+
+  return {
+    setHovered(cursor) {
+      hovered = cursor;
+      apply();
+    },
+    addOverride(cursor) {
+      const override = { cursor };
+      overrides.push(override);
+      apply();
+      return () => {
+        overrides.splice(overrides.indexOf(override), 1);
+        apply();
+      };
+    },
+    connect(canvas) {
+      element = canvas;
+      apply();
+      return () => {
+        canvas.style.cursor = "";
+        element = null;
+      };
+    },
+  };
+}
+
+/**
+ * Finds the cursor of the topmost hovered target of a pick path: the Pixi
+ * `cursor` of the target or its parents, or the `userData.cursor` of the
+ * intersected Three object or its parents, in the deepest layer that sets one.
+ *
+ * @internal
+ * @param path - Pick path, outermost first
+ * @returns The cursor, "" if no target sets one
+ */
+export function getPickPathCursor(path: PickHit[]) {
+  for (let i = path.length - 1; i >= 0; i--) {
+    const hit = path[i];
+    if (hit.type === "pixi") {
+      let container: Container | null = hit.target;
+      while (container) {
+        if (container.cursor) {
+          return container.cursor;
+        }
+        if (container === hit.container) {
+          break;
+        }
+        container = container.parent;
+      }
+    } else {
+      let object: Object3D | null = hit.intersection.object;
+      while (object) {
+        const cursor: unknown = object.userData.cursor;
+        if (typeof cursor === "string" && cursor) {
+          return cursor;
+        }
+        object = object.parent;
+      }
+    }
+  }
+  return "";
+}
+
+/**
+ * Hook for setting the cursor of the nearest {@link CanvasView} canvas, e.g.
+ * from React Three Fiber pointer handlers.
+ *
+ * Without it, the canvas shows the cursor of the topmost hovered target in
+ * any layer: the Pixi `cursor` property, or `userData.cursor` on Three
+ * objects. While active, the hook overrides that cursor.
+ *
+ * @category hook
+ * @param active - Whether to override the cursor
+ * @param cursor - CSS cursor, defaults to "pointer"
+ * @throws If called outside of a {@link CanvasView}
+ * @example
+ * ```tsx
+ * const [hovered, setHovered] = useState(false);
+ * useCursor(hovered);
+ * return (
+ *   <mesh
+ *     onPointerOver={() => setHovered(true)}
+ *     onPointerOut={() => setHovered(false)}
+ *   >
+ *     <boxGeometry />
+ *   </mesh>
+ * );
+ * ```
+ */
+export function useCursor(active: boolean, cursor = "pointer") {
+  const { cursor: canvasCursor } = useCanvasView();
+
+  useEffect(() => {
+    if (!active) {
+      return;
+    }
+    return canvasCursor.addOverride(cursor);
+  }, [active, cursor, canvasCursor]);
+}
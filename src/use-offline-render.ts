@@ -0,0 +1,214 @@
+import { useApplication } from "@pixi/react";
+import { type RefObject, useRef } from "react";
+
+import { type InjectPointerInit } from "./inject-pointer";
+import { waitForRenderer } from "./render-backend";
+import { useRenderContext } from "./render-context-hooks";
+
+/**
+ * Receives encoded frames from {@link CanvasViewHandle.renderOffline} and
+ * packs them into a container format, e.g. with `mp4-muxer` or `webm-muxer`.
+ *
+ * @category component
+ * @expand
+ */
+export interface OfflineRenderMuxer<T = Blob> {
+  /**
+   * Called for each encoded chunk in decode order.
+   * Returned promises are awaited in order before the next chunk is added.
+   */
+  addChunk: (
+    chunk: EncodedVideoChunk,
+    metadata?: EncodedVideoChunkMetadata,
+  ) => void | Promise<void>;
+  /** Called after the last chunk has been added. Returns the finished file. */
+  finalize: () => T | Promise<T>;
+}
+
+/**
+ * See {@link CanvasViewHandle.renderOffline}.
+ *
+ * @category component
+ * @expand
+ */
+export interface RenderOfflineOptions<T = Blob> {
+  /** Frames per second of the output */
+  fps: number;
+  /** Duration of the output in seconds */
+  duration: number;
+  /** Muxer for the encoded chunks */
+  muxer: OfflineRenderMuxer<T>;
+  /**
+   * {@link https://developer.mozilla.org/en-US/docs/Web/API/VideoEncoder/configure | VideoEncoder} config overrides.
+   * Defaults to VP9 at 5 Mbps with the canvas pixel size.
+   */
+  encoderConfig?: Partial<VideoEncoderConfig>;
+  /** Frames between key frames, defaults to 2 seconds of frames */
+  keyFrameInterval?: number;
+  /** Callback invoked after each frame is encoded */
+  onProgress?: (frame: number, frameCount: number) => void;
+  /** Signal to abort the render */
+  signal?: AbortSignal;
+}
+
+/**
+ * Imperative handle of a {@link CanvasView}.
+ *
+ * @category component
+ * @expand
+ */
+export interface CanvasViewHandle {
+  /**
+   * Renders the canvas frame by frame with a fixed timestep and encodes it with
+   * {@link https://developer.mozilla.org/en-US/docs/Web/API/VideoEncoder | VideoEncoder}.
+   *
+   * The shared ticker is paused while rendering, so `useTick` and `useFrame`
+   * callbacks receive exactly `1 / fps` seconds per frame, scaled by
+   * {@link useRenderClock}, regardless of how long each frame takes.
+   * All canvas views advance together, so one render runs at a time per
+   * {@link RenderContext}.
+   *
+   * @param options - Render options
+   * @returns The result of {@link OfflineRenderMuxer.finalize}
+   */
+  renderOffline: <T = Blob>(options: RenderOfflineOptions<T>) => Promise<T>;
+  /**
+   * Sends a synthetic pointer event through the same routing as real input.
+   * See {@link useInjectPointer} for world and UV coordinates.
+   *
+   * @param init - Event type, coordinates and pointer
+   * @returns False if a handler prevented the default action
+   */
+  injectPointer: (init: InjectPointerInit) => boolean;
+}
+
+const DEFAULT_CODEC = "vp09.00.10.08";
+const DEFAULT_BITRATE = 5_000_000;
+const MAX_ENCODE_QUEUE_SIZE = 4;
+
+/** @internal */
+export interface UseOfflineRenderOptions {
+  canvasRef: RefObject<HTMLCanvasElement>;
+  /** Renders the canvas unconditionally */
+  renderFrame: () => void;
+}
+
+/**
+ * Hook that drives the shared ticker with a fixed timestep and encodes the
+ * canvas after each step.
+ *
+ * @internal
+ * @param options - The canvas ref and render function
+ * @returns The renderOffline function and a callback to mark rendered frames
+ */
+export function useOfflineRender({
+  canvasRef,
+  renderFrame,
+}: UseOfflineRenderOptions) {
+  const { app } = useApplication();
+  // Canvas views share the ticker, so one offline render runs at a time
+  const { offlineRendering: isRendering } = useRenderContext();
+  const lastRenderTime = useRef<number | null>(null);
+
+  /** Marks the current ticker frame as rendered */
+  function markFrameRendered() {
+    lastRenderTime.current = app.ticker.lastTime;
+  }
+
+  async function renderOffline<T = Blob>({
+    fps,
+    duration,
+    muxer,
+    encoderConfig,
+    keyFrameInterval = Math.max(1, Math.round(fps * 2)),
+    onProgress,
+    signal,
+  }: RenderOfflineOptions<T>): Promise<T> {
+    if (isRendering.current) {
+      throw Error(
+        "renderOffline() is already running in this <RenderContext />",
+      );
+    }
+    isRendering.current = true;
+
+    const ticker = app.ticker;
+    const canvas = canvasRef.current;
+    const frameCount = Math.round(duration * fps);
+    const frameTime = 1000 / fps;
+    const wasStarted = ticker.started;
+
+    let encoderError: Error | null = null;
+    let muxing = Promise.resolve();
+    const encoder = new VideoEncoder({
+      output(chunk, metadata) {
+        muxing = muxing.then(() => muxer.addChunk(chunk, metadata));
+      },
+      error(error) {
+        encoderError = error;
+      },
+    });
+
+    ticker.stop();
+    try {
+      encoder.configure({
+        codec: DEFAULT_CODEC,
+        width: canvas.width,
+        height: canvas.height,
+        bitrate: DEFAULT_BITRATE,
+        framerate: fps,
+        ...encoderConfig,
+      });
+
+      const origin = ticker.lastTime;
+      for (let i = 0; i < frameCount; i++) {
+        signal?.throwIfAborted();
+        if (encoderError) {
+          throw encoderError;
+        }
+
+        ticker.update(origin + (i + 1) * frameTime);
+        // Hidden or idle canvases skip their tick, but every frame must be captured
+        if (lastRenderTime.current !== ticker.lastTime) {
+          renderFrame();
+        }
+
+        // Capture synchronously, before the drawing buffer can be presented
+        const frame = new VideoFrame(canvas, {
+          timestamp: Math.round(i * frameTime * 1000),
+          duration: Math.round(frameTime * 1000),
+        });
+        encoder.encode(frame, { keyFrame: i % keyFrameInterval === 0 });
+        frame.close();
+
+        await waitForRenderer(app.renderer);
+        while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE_SIZE) {
+          await new Promise((resolve) =>
+            encoder.addEventListener("dequeue", resolve, { once: true }),
+          );
+        }
+        onProgress?.(i + 1, frameCount);
+      }
+
+      await encoder.flush();
+      await muxing;
+      if (encoderError) {
+        throw encoderError;
+      }
+      return await muxer.finalize();
+    } finally {
+      if (encoder.state !== "closed") {
+        encoder.close();
+      }
+      // Muxing is only awaited when every frame was encoded
+      void muxing.catch(() => undefined);
+      // Resume from now; the render clock accumulates deltas so it stays monotonic
+      ticker.lastTime = performance.now();
+      if (wasStarted) {
+        ticker.start();
+      }
+      isRendering.current = false;
+    }
+  }
+
+  return { renderOffline, markFrameRendered };
+}
@@ -0,0 +1,51 @@
+import { useState } from "react";
+
+/** @internal */
+export interface PointerCaptures {
+  /** Whether this layer or one nested in it captured the pointer */
+  isPointerCaptured: (pointerId: number | undefined) => boolean;
+  /**
+   * Captures a pointer in this layer and every parent layer, so their compute
+   * functions keep mapping it when it leaves the content.
+   * @param pointerId - The pointer id
+   * @returns A function that releases the capture
+   */
+  capturePointer: (pointerId: number) => () => void;
+}
+
+/**
+ * Hook that tracks pointers captured by content nested in a
+ * {@link ThreeScene}, {@link PixiTexture} or {@link ThreeRenderTexture}.
+ *
+ * @internal
+ * @param parentCapturePointer - Capture function of the parent layer
+ * @returns The capture state of the layer
+ */
+export function usePointerCaptures(
+  parentCapturePointer?: (pointerId: number) => () => void,
+): PointerCaptures {
+  const [counts] = useState(() => new Map<number, number>());
+
+  return {
+    isPointerCaptured: (pointerId) =>
+      pointerId !== undefined && counts.has(pointerId),
+    capturePointer: (pointerId) => {
+      counts.set(pointerId, (counts.get(pointerId) ?? 0) + 1);
+      const releaseParent = parentCapturePointer?.(pointerId);
+      let released = false;
+      return () => {
+        if (released) {
+          return;
+        }
+        released = true;
+        const count = (counts.get(pointerId) ?? 1) - 1;
+        if (count > 0) {
+          counts.set(pointerId, count);
+        } else {
+          counts.delete(pointerId);
+        }
+        releaseParent?.();
+      };
+    },
+  };
+}
@@ -0,0 +1,106 @@
+import {
+  type RefObject,
+  useContext,
+  useEffect,
+  useEffectEvent,
+  useState,
+} from "react";
+
+import { CanvasTreeContext } from "./canvas-tree-context";
+import { useRenderContext } from "./render-context-hooks";
+import { type RenderGraphNode, type RenderGraphRender } from "./render-graph";
+
+/** @internal */
+export interface UseRenderNodeProps {
+  /** Shown in cycle reports */
+  label: string;
+  /** Orders independent nodes, lower renders first */
+  priority?: number;
+  /** Object that consumers reference to depend on this node */
+  output?: RefObject<object | null>;
+  /** Recursion depth in feedback mode */
+  feedback?: number;
+}
+
+/**
+ * Adds a node to the render graph, nested in the nearest canvas tree node.
+ *
+ * @internal
+ * @param props - The node label, priority, output and feedback depth
+ * @returns The node, to be provided with {@link CanvasTreeContext}
+ */
+export function useRenderNode({
+  label,
+  priority = 0,
+  output,
+  feedback,
+}: UseRenderNodeProps): RenderGraphNode {
+  const { graph } = useRenderContext();
+  const parent = useContext(CanvasTreeContext)?.renderNode ?? null;
+  const [node] = useState<RenderGraphNode>(() => ({ label }));
+
+  useEffect(
+    () => graph.add(node, { parent, priority, output, feedback }),
+    [feedback, graph, node, output, parent, priority],
+  );
+
+  return node;
+}
+
+/**
+ * Sets the function that renders a node, called once per frame after its
+ * producers have rendered, and once per pass of a feedback loop.
+ *
+ * @internal
+ * @param node - The render graph node
+ * @param callback - Renders the node if needed
+ */
+export function useRenderCallback(
+  node: RenderGraphNode,
+  callback: RenderGraphRender,
+) {
+  const { graph } = useRenderContext();
+  const onRender = useEffectEvent(callback);
+
+  useEffect(
+    () => graph.setRender(node, (pass, passes) => onRender(pass, passes)),
+    [graph, node],
+  );
+}
+
+/**
+ * Hook that renders the nearest canvas view, scene or texture after the
+ * producer of an output referenced outside of its nesting, e.g. a
+ * {@link PixiTexture} node shared between two {@link ThreeScene} components.
+ *
+ * Nested producers are ordered automatically.
+ *
+ * @category hook
+ * @param output - Ref of a {@link PixiTexture}, {@link ThreeRenderTexture} or {@link ThreeScene}
+ * @throws If called outside of a {@link CanvasView}
+ * @example
+ * ```tsx
+ * function Screen({ texture }: { texture: RefObject<TextureNode> }) {
+ *   useRenderDependency(texture);
+ *   return (
+ *     <mesh>
+ *       <planeGeometry />
+ *       <meshBasicNodeMaterial colorNode={texture.current} />
+ *     </mesh>
+ *   );
+ * }
+ * ```
+ */
+export function useRenderDependency(output: RefObject<object | null>) {
+  const { graph } = useRenderContext();
+  const context = useContext(CanvasTreeContext);
+  if (context === null) {
+    throw Error("useRenderDependency() must be called within a <CanvasView />");
+  }
+  const { renderNode } = context;
+
+  useEffect(
+    () => graph.addDependency(renderNode, output),
+    [graph, output, renderNode],
+  );
+}
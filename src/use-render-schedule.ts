@@ -31,10 +31,17 @@ export function useRenderSchedule({ fpsLimit }: UseRenderScheduleProps = {}) {
     frameRequested.current = true;
   }
 
-  function signalFrame() {
-    frameRequested.current = false;
-    if (fpsLimit !== undefined) {
-      lastFrameTime.current = performance.now();
+  /**
+   * Clears the frame request after the last pass of the frame and requests
+   * a frame of the parent.
+   * @param isLastPass - False before the last pass of a feedback loop
+   */
+  function signalFrame(isLastPass = true) {
+    if (isLastPass) {
+      frameRequested.current = false;
+      if (fpsLimit !== undefined) {
+        lastFrameTime.current = performance.now();
+      }
     }
     parentInvalidate();
   }
@@ -0,0 +1,186 @@
+import { type RootState, useThree } from "@react-three/fiber";
+import { useState } from "react";
+import { type Object3D, Ray } from "three";
+
+import { useThreeSceneContext } from "./three-scene-context";
+
+/** First pointer id of virtual pointers, below the ids browsers assign */
+const VIRTUAL_POINTER_ID_BASE = 2 ** 29;
+
+/** `buttons` bit of each `button`, middle and right are swapped in the DOM */
+const BUTTON_BITS = [1, 4, 2, 8, 16];
+
+/**
+ * Options of {@link useVirtualPointer}.
+ *
+ * @category hook
+ * @expand
+ */
+export interface VirtualPointerOptions {
+  /** Pointer type of the events, defaults to "pen" */
+  pointerType?: string;
+}
+
+/**
+ * Ray-based pointer returned by {@link useVirtualPointer}.
+ *
+ * @category hook
+ * @expand
+ */
+export interface VirtualPointer {
+  /** Pointer id of the events, unique to this pointer */
+  pointerId: number;
+  /**
+   * Moves the pointer along a ray and sends a pointermove, updating hover.
+   * @param ray - Ray in world coordinates of the scene
+   */
+  move: (ray: Ray) => void;
+  /**
+   * Presses a button at the last ray.
+   * @param button - Button index, defaults to 0
+   */
+  down: (button?: number) => void;
+  /**
+   * Releases a button at the last ray, followed by a click.
+   * @param button - Button index, defaults to 0
+   */
+  up: (button?: number) => void;
+  /** Moves the pointer off every object, ending hover */
+  leave: () => void;
+}
+
+interface VirtualRay {
+  scene: Object3D;
+  /** Null when the pointer left */
+  ray: Ray | null;
+}
+
+const virtualRays = new WeakMap<Event, VirtualRay>();
+
+let nextPointerId = VIRTUAL_POINTER_ID_BASE;
+
+/**
+ * Gets the world ray of a virtual pointer event.
+ *
+ * @internal
+ * @param event - An event passed to an event compute function
+ * @returns The scene and ray, undefined for DOM events
+ */
+export function getVirtualRay(event: Event): VirtualRay | undefined {
+  return virtualRays.get(event);
+}
+
+/**
+ * Sets the raycaster of a scene from a virtual pointer ray, in place of the
+ * camera ray through a client point.
+ *
+ * @internal
+ * @param virtualRay - The ray of a virtual pointer event in this scene
+ * @param state - The event compute state of the scene
+ * @returns False if the pointer left
+ */
+export function computeVirtualRay(virtualRay: VirtualRay, state: RootState) {
+  if (!virtualRay.ray) {
+    return false;
+  }
+  state.raycaster.ray.copy(virtualRay.ray);
+  state.raycaster.camera = state.camera;
+}
+
+// React Three Fiber captures pointers on the event target
+const captureTarget = {
+  setPointerCapture() {},
+  releasePointerCapture() {},
+  hasPointerCapture: () => false,
+};
+
+const handlerNames = {
+  pointermove: "onPointerMove",
+  pointerdown: "onPointerDown",
+  pointerup: "onPointerUp",
+  click: "onClick",
+} as const;
+
+/**
+ * Hook for a "laser pointer" that sends pointer events along an arbitrary
+ * world ray of the nearest {@link ThreeScene} or {@link ThreeRenderTexture},
+ * e.g. from a 3D controller model or a gaze reticle.
+ *
+ * Events go through the same event compute as DOM pointers, so React Three
+ * Fiber objects receive them with their own `pointerId`, and so does Pixi
+ * content in a {@link PixiTexture} on the hit mesh, at the UV of the hit.
+ * Custom `eventCompute` props do not receive virtual pointers. Like every
+ * React Three Fiber pointer, a virtual pointer shares hover state with the
+ * mouse.
+ *
+ * @category hook
+ * @param options - Pointer type
+ * @returns The virtual pointer
+ * @throws If called outside of a {@link ThreeScene} or {@link ThreeRenderTexture}
+ * @example
+ * ```tsx
+ * const pointer = useVirtualPointer();
+ * const controller = useRef<Object3D>(null!);
+ * const ray = new Ray();
+ * useFrame(() => {
+ *   controller.current.getWorldPosition(ray.origin);
+ *   controller.current.getWorldDirection(ray.direction);
+ *   pointer.move(ray);
+ * });
+ * return <mesh ref={controller} onClick={() => pointer.down()} />;
+ * ```
+ */
+export function useVirtualPointer({
+  pointerType = "pen",
+}: VirtualPointerOptions = {}): VirtualPointer {
+  useThreeSceneContext();
+  const get = useThree((state) => state.get);
+
+  const [pointer] = useState(() => {
+    const pointerId = nextPointerId++;
+    const ray = new Ray();
+    let hasRay = false;
+    let buttons = 0;
+
+    function send(type: keyof typeof handlerNames, button: number) {
+      const state = get();
+      const event = new PointerEvent(type, {
+        pointerId,
+        pointerType,
+        isPrimary: false,
+        buttons,
+        button,
+        cancelable: true,
+      });
+      Object.defineProperty(event, "target", { value: captureTarget });
+      virtualRays.set(event, { scene: state.scene, ray: hasRay ? ray : null });
+      state.events.handlers?.[handlerNames[type]](event);
+    }
+
+    return {
+      pointerId,
+      move(nextRay: Ray) {
+        ray.copy(nextRay);
+        hasRay = true;
+        send("pointermove", -1);
+      },
+      down(button = 0) {
+        buttons |= BUTTON_BITS[button] ?? 0;
+        send("pointerdown", button);
+      },
+      up(button = 0) {
+        buttons &= ~(BUTTON_BITS[button] ?? 0);
+        send("pointerup", button);
+        send("click", button);
+        // There is no lostpointercapture to release captures
+        get().internal.capturedMap.delete(pointerId);
+      },
+      leave() {
+        hasRay = false;
+        send("pointermove", -1);
+      },
+    };
+  });
+
+  return pointer;
+}